@@ -0,0 +1,169 @@
+#!/usr/bin/env node
+
+// Compares applying sync changes one statement per word (the old approach) with the
+// batched statements now used by the server and the app.
+//
+//   node scripts/bench-sync-upserts.cjs [--words 5000]
+//
+// SQLite always runs (file database in the temp directory, like the app). Postgres runs
+// when DATABASE_URL is set, against temporary tables that are dropped afterwards.
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const crypto = require('crypto');
+
+const args = process.argv.slice(2);
+let wordCount = 5000;
+for (let i = 0; i < args.length; i++) {
+  if (args[i] === '--words') wordCount = parseInt(args[++i]);
+}
+
+const COLUMNS = ['id', 'original', 'translation', 'article', 'language', 'score', 'createdAt', 'lastReviewedAt', 'nextReviewAt', 'updatedAt', 'contentUpdatedAt', 'deletedAt'];
+const MAX_STATEMENT_PARAMS = 900;
+
+const makeWords = (count) => {
+  const now = Date.now();
+  return Array.from({ length: count }, (_, i) => ({
+    id: crypto.randomUUID(),
+    original: `Wort ${i}`,
+    translation: `word ${i}`,
+    article: ['der', 'die', 'das'][i % 3],
+    language: 'de',
+    score: i % 10,
+    createdAt: now - i,
+    lastReviewedAt: now - i,
+    nextReviewAt: now + i,
+    updatedAt: now,
+    contentUpdatedAt: now,
+    deletedAt: null
+  }));
+};
+
+const chunk = (rows, columns) => {
+  const size = Math.floor(MAX_STATEMENT_PARAMS / columns);
+  const chunks = [];
+  for (let i = 0; i < rows.length; i += size) chunks.push(rows.slice(i, i + size));
+  return chunks;
+};
+
+const time = async (label, fn) => {
+  const start = process.hrtime.bigint();
+  await fn();
+  const ms = Number(process.hrtime.bigint() - start) / 1e6;
+  console.log(`   ${label.padEnd(28)} ${ms.toFixed(0).padStart(7)} ms`);
+  return ms;
+};
+
+const report = (before, after) => {
+  console.log(`   ${'speedup'.padEnd(28)} ${(before / after).toFixed(1).padStart(7)}x\n`);
+};
+
+async function benchSqlite(words) {
+  const Database = require('better-sqlite3');
+  const file = path.join(os.tmpdir(), `bench-sync-${process.pid}.db`);
+  const db = new Database(file);
+
+  db.exec(`CREATE TABLE words (
+    id TEXT PRIMARY KEY, original TEXT NOT NULL, translation TEXT NOT NULL, article TEXT DEFAULT '',
+    language TEXT NOT NULL DEFAULT 'de', score INTEGER DEFAULT 0, createdAt INTEGER NOT NULL,
+    lastReviewedAt INTEGER DEFAULT 0, nextReviewAt INTEGER NOT NULL, updatedAt INTEGER NOT NULL,
+    contentUpdatedAt INTEGER NOT NULL DEFAULT 0, deletedAt INTEGER DEFAULT NULL
+  )`);
+
+  const updates = COLUMNS.filter(c => c !== 'id').map(c => `${c} = excluded.${c}`).join(', ');
+  const values = (w) => COLUMNS.map(c => w[c]);
+
+  console.log(`SQLite, ${words.length} words`);
+
+  const perRow = db.prepare(`INSERT INTO words (${COLUMNS.join(', ')}) VALUES (${COLUMNS.map(() => '?').join(', ')})
+    ON CONFLICT(id) DO UPDATE SET ${updates}`);
+  const before = await time('one statement per word', () => {
+    for (const w of words) perRow.run(values(w));
+  });
+
+  db.exec('DELETE FROM words');
+
+  const after = await time('chunked, one transaction', () => {
+    const batch = db.transaction(() => {
+      for (const rows of chunk(words, COLUMNS.length)) {
+        const placeholders = rows.map(() => `(${COLUMNS.map(() => '?').join(', ')})`).join(', ');
+        db.prepare(`INSERT INTO words (${COLUMNS.join(', ')}) VALUES ${placeholders} ON CONFLICT(id) DO UPDATE SET ${updates}`)
+          .run(rows.flatMap(values));
+      }
+    });
+    batch();
+  });
+  report(before, after);
+
+  db.close();
+  fs.rmSync(file, { force: true });
+}
+
+async function benchPostgres(words) {
+  const { Pool } = require(path.join(__dirname, '..', 'server', 'node_modules', 'pg'));
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+  const client = await pool.connect();
+  const userId = crypto.randomUUID();
+
+  const columns = 'id, original, translation, article, language, score, created_at, last_reviewed_at, next_review_at, updated_at, content_updated_at, deleted_at';
+  const keys = COLUMNS;
+
+  const createTable = () => client.query(`CREATE TEMP TABLE bench_words (
+    id UUID PRIMARY KEY, user_id UUID NOT NULL, original TEXT NOT NULL, translation TEXT NOT NULL, article TEXT DEFAULT '',
+    language VARCHAR(10) NOT NULL DEFAULT 'de', score INTEGER DEFAULT 0, created_at BIGINT NOT NULL,
+    last_reviewed_at BIGINT DEFAULT 0, next_review_at BIGINT NOT NULL, updated_at BIGINT NOT NULL,
+    content_updated_at BIGINT NOT NULL DEFAULT 0, synced_at BIGINT NOT NULL, deleted_at BIGINT DEFAULT NULL
+  )`);
+
+  console.log(`Postgres, ${words.length} words`);
+
+  try {
+    await createTable();
+    const before = await time('one statement per word', async () => {
+      await client.query('BEGIN');
+      for (const w of words) {
+        await client.query('SELECT user_id FROM bench_words WHERE id = $1 FOR UPDATE', [w.id]);
+        await client.query(
+          `INSERT INTO bench_words (user_id, synced_at, ${columns}) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)`,
+          [userId, Date.now(), ...keys.map(k => w[k])]
+        );
+      }
+      await client.query('COMMIT');
+    });
+
+    await client.query('DROP TABLE bench_words');
+    await createTable();
+
+    const after = await time('unnest, one transaction', async () => {
+      await client.query('BEGIN');
+      await client.query('SELECT user_id FROM bench_words WHERE id = ANY($1::uuid[]) FOR UPDATE', [words.map(w => w.id)]);
+      await client.query(
+        `INSERT INTO bench_words (user_id, synced_at, ${columns})
+         SELECT $1::uuid, $2::bigint, c.* FROM unnest($3::uuid[], $4::text[], $5::text[], $6::text[], $7::varchar[], $8::int[],
+           $9::bigint[], $10::bigint[], $11::bigint[], $12::bigint[], $13::bigint[], $14::bigint[]) AS c(${columns})`,
+        [userId, Date.now(), ...keys.map(k => words.map(w => w[k]))]
+      );
+      await client.query('COMMIT');
+    });
+    report(before, after);
+  } finally {
+    await client.query('DROP TABLE IF EXISTS bench_words').catch(() => {});
+    client.release();
+    await pool.end();
+  }
+}
+
+(async () => {
+  const words = makeWords(wordCount);
+  await benchSqlite(words);
+
+  if (process.env.DATABASE_URL) {
+    await benchPostgres(words);
+  } else {
+    console.log('Set DATABASE_URL to also benchmark Postgres.');
+  }
+})().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -3,6 +3,7 @@
 const fs = require('fs');
 const path = require('path');
 const zlib = require('zlib');
+const crypto = require('crypto');
 const Database = require('better-sqlite3');
 
 console.log('📚 Building SQLite dictionary database...\n');
@@ -12,14 +13,17 @@ const args = process.argv.slice(2);
 let inputFile = '';
 let outputDb = '';
 let outputGz = '';
+let outputManifest = '';
+let formsFile = '';
 
 for (let i = 0; i < args.length; i++) {
   if (args[i] === '--in') inputFile = args[++i];
   else if (args[i] === '--out') outputDb = args[++i];
+  else if (args[i] === '--forms') formsFile = args[++i];
 }
 
 if (!inputFile || !outputDb) {
-  console.error('Usage: node build-dictionary-db.cjs --in <json_path> --out <db_path>');
+  console.error('Usage: node build-dictionary-db.cjs --in <json_path> --out <db_path> [--forms <unimorph_tsv_path>]');
   process.exit(1);
 }
 
@@ -27,8 +31,12 @@ if (!inputFile || !outputDb) {
 inputFile = path.resolve(process.cwd(), inputFile);
 outputDb = path.resolve(process.cwd(), outputDb);
 outputGz = outputDb + '.gz';
+// de.db -> de.manifest.json, read by the server's /dictionaries/<lang>/manifest
+outputManifest = path.join(path.dirname(outputDb), path.basename(outputDb, '.db') + '.manifest.json');
+if (formsFile) formsFile = path.resolve(process.cwd(), formsFile);
 
 console.log(`Input: ${inputFile}`);
+if (formsFile) console.log(`Forms: ${formsFile}`);
 console.log(`Output: ${outputGz}`);
 
 // Step 1: Read JSON
@@ -69,10 +77,44 @@ db.exec(`
   
   CREATE INDEX idx_word ON dictionary(word);
   CREATE INDEX idx_word_lower ON dictionary(LOWER(word));
+
+  -- One row per meaning phrase for the app's reverse (meaning) search. Phrases are stored
+  -- normalized (see normalizePhrase), position is the phrase's index within its entry.
+  CREATE VIRTUAL TABLE meaning_fts USING fts5(
+    phrase,
+    entry_id UNINDEXED,
+    position UNINDEXED,
+    tokenize = 'unicode61 remove_diacritics 2',
+    prefix = '2 3'
+  );
+
+  -- Inflected forms of the headwords ("ging" -> "gehen"), form in lower case
+  CREATE TABLE forms (
+    form TEXT NOT NULL,
+    lemma TEXT NOT NULL,
+    description TEXT NOT NULL
+  );
+
+  CREATE INDEX idx_forms_form ON forms(form);
 `);
 
+// Must match normalizePhrase in src/lib/dictionary.ts: lower case, no diacritics, words separated by single spaces
+const normalizePhrase = (text) => text
+  .normalize('NFD')
+  .replace(/\p{M}/gu, '')
+  .toLowerCase()
+  .split(/[^\p{L}\p{N}]+/u)
+  .filter(Boolean)
+  .join(' ');
+
+// Meanings often list several translations separated by commas, each is its own phrase
+const meaningPhrases = (meanings) => meanings
+  .flatMap(meaning => String(meaning).split(','))
+  .map(normalizePhrase)
+  .filter(Boolean);
+
 // Insert metadata
-const version = new Date().toISOString().split('T')[0].replace(/-/g, ''); // YYYYMMDD
+const version = new Date().toISOString().replace(/\D/g, '').slice(0, 14); // YYYYMMDDHHMMSS, compared as a string by the app
 db.prepare(`INSERT INTO metadata (key, value) VALUES (?, ?)`).run('version', version);
 db.prepare(`INSERT INTO metadata (key, value) VALUES (?, ?)`).run('created_at', new Date().toISOString());
 db.prepare(`INSERT INTO metadata (key, value) VALUES (?, ?)`).run('total_entries', entries.length.toString());
@@ -84,6 +126,8 @@ const insert = db.prepare(`
   INSERT INTO dictionary (word, pronunciation, gender, meanings, notes, synonyms, seeAlso)
   VALUES (?, ?, ?, ?, ?, ?, ?)
 `);
+const insertPhrase = db.prepare(`INSERT INTO meaning_fts (phrase, entry_id, position) VALUES (?, ?, ?)`);
+let phraseCount = 0;
 
 // Insert all entries in a transaction
 console.log('6️⃣  Inserting entries...');
@@ -93,7 +137,7 @@ db.transaction(() => {
   for (let i = 0; i < entries.length; i++) {
     const entry = entries[i];
 
-    insert.run(
+    const { lastInsertRowid } = insert.run(
       entry.word || '',
       entry.pronunciation || '',
       entry.gender || '',
@@ -103,6 +147,11 @@ db.transaction(() => {
       JSON.stringify(entry.seeAlso || [])
     );
 
+    meaningPhrases(entry.meanings || []).forEach((phrase, position) => {
+      insertPhrase.run(phrase, lastInsertRowid, position);
+      phraseCount++;
+    });
+
     if ((i + 1) % 50000 === 0) {
       console.log(`   Inserted ${(i + 1).toLocaleString()} / ${entries.length.toLocaleString()}`);
     }
@@ -112,6 +161,67 @@ db.transaction(() => {
 const elapsed = ((Date.now() - startTime) / 1000).toFixed(2);
 console.log(`   ✓ Inserted ${entries.length.toLocaleString()} entries in ${elapsed}s`);
 
+console.log(`   Optimizing meaning index (${phraseCount.toLocaleString()} phrases)...`);
+db.exec(`INSERT INTO meaning_fts (meaning_fts) VALUES ('optimize')`);
+
+// UniMorph feature tags as shown in the app, e.g. V;IND;PST;3;SG -> "verb, indicative, past, 3rd person, singular"
+const FEATURES = {
+  N: 'noun', V: 'verb', ADJ: 'adjective', ADV: 'adverb', 'V.PTCP': 'participle', 'V.CVB': 'gerund',
+  NFIN: 'infinitive', IND: 'indicative', SBJV: 'subjunctive', IMP: 'imperative', COND: 'conditional',
+  PRS: 'present', PST: 'past', FUT: 'future', PRF: 'perfect', IPFV: 'imperfective', PFV: 'perfective',
+  1: '1st person', 2: '2nd person', 3: '3rd person', SG: 'singular', PL: 'plural',
+  NOM: 'nominative', ACC: 'accusative', GEN: 'genitive', DAT: 'dative',
+  MASC: 'masculine', FEM: 'feminine', NEUT: 'neuter', DEF: 'definite', INDF: 'indefinite',
+  CMPR: 'comparative', SPRL: 'superlative', POS: 'positive', FORM: 'formal', INFM: 'informal'
+};
+const describeFeatures = (features) => features
+  .split(/[;+]/)
+  .filter(Boolean)
+  .map(tag => FEATURES[tag] || tag.toLowerCase())
+  .join(', ');
+
+// Step 2b: Inflected forms from a UniMorph file (lemma <TAB> form <TAB> features per line).
+// Only forms of headwords in this dictionary are kept, the app looks the lemma up afterwards.
+if (formsFile) {
+  console.log('6️⃣b Inserting inflected forms...');
+  const headwords = new Map();
+  for (const entry of entries) {
+    if (entry.word && !headwords.has(entry.word.toLowerCase())) headwords.set(entry.word.toLowerCase(), entry.word);
+  }
+
+  const insertForm = db.prepare(`INSERT INTO forms (form, lemma, description) VALUES (?, ?, ?)`);
+  const seen = new Set();
+  let formCount = 0;
+  let skipped = 0;
+
+  db.transaction(() => {
+    for (const line of fs.readFileSync(formsFile, 'utf-8').split('\n')) {
+      const [lemma, form, features] = line.split('\t').map(part => (part || '').trim());
+      if (!lemma || !form || !features) continue;
+
+      const headword = headwords.get(lemma.toLowerCase());
+      const lowerForm = form.toLowerCase();
+      if (!headword || lowerForm === headword.toLowerCase()) {
+        skipped++;
+        continue;
+      }
+
+      const description = describeFeatures(features);
+      const key = `${lowerForm}\t${headword}\t${description}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      insertForm.run(lowerForm, headword, description);
+      formCount++;
+    }
+  })();
+
+  console.log(`   ✓ Inserted ${formCount.toLocaleString()} forms (${skipped.toLocaleString()} without a headword or equal to it)`);
+} else {
+  // The app expects the table either way, it is just empty
+  console.log('6️⃣b No --forms file given, the forms table stays empty (no lemma lookup)');
+}
+
 // Close database
 db.close();
 
@@ -125,6 +235,14 @@ const compressed_db = zlib.gzipSync(dbBuffer, { level: 9 });
 fs.writeFileSync(outputGz, compressed_db);
 console.log(`   Compressed size: ${(compressed_db.length / 1024 / 1024).toFixed(2)} MB`);
 
+// Apps compare the version before downloading and verify the archive against size and checksum
+const manifest = {
+  version,
+  size: compressed_db.length,
+  sha256: crypto.createHash('sha256').update(compressed_db).digest('hex')
+};
+fs.writeFileSync(outputManifest, JSON.stringify(manifest, null, 2) + '\n');
+
 // Cleanup: remove uncompressed db
 fs.unlinkSync(outputDb);
 
@@ -132,5 +250,6 @@ fs.unlinkSync(outputDb);
 console.log('\n✅ Done!');
 console.log(`\nResults:`);
 console.log(`  - Created: ${path.relative(process.cwd(), outputGz)}`);
+console.log(`  - Manifest: ${path.relative(process.cwd(), outputManifest)} (version ${version})`);
 console.log(`  - Compressed: ${(compressed_db.length / 1024 / 1024).toFixed(2)} MB`);
 console.log(`\nYou can now use this in your Tauri app!`);
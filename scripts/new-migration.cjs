@@ -0,0 +1,52 @@
+#!/usr/bin/env node
+
+// Creates the next numbered schema migration for the server (Postgres) or the app (SQLite).
+// Usage: node scripts/new-migration.cjs <server|client> <name>
+
+const fs = require('fs');
+const path = require('path');
+
+const TARGETS = {
+  server: {
+    dir: path.join(__dirname, '..', 'server', 'src', 'migrations'),
+    template: `import { MigrationUp } from '../migrator';
+
+export const up: MigrationUp = [
+    // SQL statements, run in one transaction
+];
+`
+  },
+  client: {
+    dir: path.join(__dirname, '..', 'src', 'lib', 'migrations'),
+    template: `import type { MigrationUp } from '../migrator';
+
+export const up: MigrationUp = [
+  // SQL statements, run in one transaction
+];
+`
+  }
+};
+
+const [target, rawName] = process.argv.slice(2);
+const config = TARGETS[target];
+
+if (!config || !rawName) {
+  console.error('Usage: node scripts/new-migration.cjs <server|client> <name>');
+  process.exit(1);
+}
+
+const name = rawName.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+if (!name) {
+  console.error('Migration name must contain letters or digits');
+  process.exit(1);
+}
+
+const versions = fs.readdirSync(config.dir)
+  .map(file => /^(\d+)_/.exec(file))
+  .filter(Boolean)
+  .map(match => parseInt(match[1]));
+const next = Math.max(0, ...versions) + 1;
+
+const file = path.join(config.dir, `${String(next).padStart(3, '0')}_${name}.ts`);
+fs.writeFileSync(file, config.template);
+console.log(`Created ${path.relative(process.cwd(), file)}`);
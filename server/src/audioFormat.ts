@@ -0,0 +1,84 @@
+import { spawn, execFile } from 'child_process';
+import { logger } from './logger';
+
+// Piper writes WAV. Other formats are encoded with ffmpeg when it is installed with the
+// needed encoder; otherwise clients get WAV and can tell from the Content-Type.
+
+export type AudioFormat = 'wav' | 'opus' | 'mp3';
+
+export const AUDIO_FORMATS: Record<AudioFormat, { mimeType: string; encoder?: string; args?: string[] }> = {
+    wav: { mimeType: 'audio/wav' },
+    opus: { mimeType: 'audio/ogg', encoder: 'libopus', args: ['-c:a', 'libopus', '-b:a', '24k', '-f', 'ogg'] },
+    mp3: { mimeType: 'audio/mpeg', encoder: 'libmp3lame', args: ['-c:a', 'libmp3lame', '-b:a', '48k', '-f', 'mp3'] }
+};
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+const ENCODE_TIMEOUT = 15 * 1000;
+
+export const isAudioFormat = (value: string): value is AudioFormat => value in AUDIO_FORMATS;
+
+// Formats ffmpeg can produce here, detected once
+const detectFormats = () => new Promise<Set<AudioFormat>>(resolve => {
+    execFile(FFMPEG_PATH, ['-hide_banner', '-encoders'], { timeout: 5000 }, (error, stdout) => {
+        const formats = new Set<AudioFormat>(['wav']);
+        if (error) {
+            logger.warn('ffmpeg not available, serving WAV only', { path: FFMPEG_PATH, error: error.message });
+            resolve(formats);
+            return;
+        }
+        for (const [format, { encoder }] of Object.entries(AUDIO_FORMATS)) {
+            if (encoder && new RegExp(`\\s${encoder}\\s`).test(stdout)) formats.add(format as AudioFormat);
+        }
+        logger.info('Audio formats available', { formats: [...formats] });
+        resolve(formats);
+    });
+});
+
+let available: Promise<Set<AudioFormat>> | null = null;
+
+export const availableFormats = () => {
+    if (!available) available = detectFormats();
+    return available;
+};
+
+// An explicitly requested format wins over Accept. Either way an unavailable format falls back to WAV.
+export const chooseFormat = async (requested: AudioFormat | undefined, accepts: (types: string[]) => string | false) => {
+    const formats = await availableFormats();
+    if (requested) return formats.has(requested) ? requested : 'wav';
+
+    // WAV is listed first so that `*/*` and missing Accept headers keep getting WAV
+    const offered = [...formats].sort((a, b) => (a === 'wav' ? -1 : b === 'wav' ? 1 : 0));
+    const accepted = accepts(offered.map(format => AUDIO_FORMATS[format].mimeType));
+    return offered.find(format => AUDIO_FORMATS[format].mimeType === accepted) || 'wav';
+};
+
+export const encode = (wav: Buffer, format: AudioFormat) => new Promise<Buffer>((resolve, reject) => {
+    const { args } = AUDIO_FORMATS[format];
+    if (!args) {
+        resolve(wav);
+        return;
+    }
+
+    const ffmpeg = spawn(FFMPEG_PATH, ['-hide_banner', '-loglevel', 'error', '-i', 'pipe:0', ...args, 'pipe:1']);
+    const timeout = setTimeout(() => ffmpeg.kill(), ENCODE_TIMEOUT);
+
+    const chunks: Buffer[] = [];
+    let stderr = '';
+    ffmpeg.stdout.on('data', (chunk) => chunks.push(chunk));
+    ffmpeg.stderr.on('data', (data) => stderr += data.toString());
+    ffmpeg.stdin.on('error', () => { }); // Reported through the exit code
+    ffmpeg.on('error', (error) => {
+        clearTimeout(timeout);
+        reject(error);
+    });
+    ffmpeg.on('close', (code, signal) => {
+        clearTimeout(timeout);
+        if (code !== 0) {
+            reject(new Error(`ffmpeg exited with ${signal || `code ${code}`}: ${stderr.trim()}`));
+        } else {
+            resolve(Buffer.concat(chunks));
+        }
+    });
+
+    ffmpeg.stdin.end(wav);
+});
@@ -1,38 +1,113 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import bcrypt from 'bcrypt';
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
-import { query } from './db';
+import { query, getClient } from './db';
+import { validateUsername, validatePassword, credentialErrorMessage, CredentialError } from './credentials';
+import { rejectIfLocked, recordFailure, resetFailures, forgiveFailure, USERNAME_POLICY, IP_POLICY, REGISTRATION_POLICY } from './rateLimit';
+import { JWT_SECRET, AccessTokenPayload, createSession, rotateSession, RefreshError, isSessionActive, listSessions, revokeSession, revokeOtherSessions, revokeAllSessions } from './sessions';
+import { generateRecoveryCodes, getRecoveryStatus, consumeRecoveryCode } from './recovery';
+import { sendError, sendInternalError } from './errors';
+import { validateBody, object, string, optional, UUID_PATTERN } from './validation';
+import { logger } from './logger';
+import { closeStreams } from './events';
 
 const router = Router();
-const JWT_SECRET = process.env.JWT_SECRET || 'secret';
 
-// Middleware to authenticate token
+const MAX_LOGIN_INPUT_LENGTH = 1024; // Longer input cannot match, so skip the bcrypt work
+
+// Compared against for unknown usernames, so they take as long to reject as wrong passwords
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync(crypto.randomBytes(16).toString('hex'), 10);
+
+// Policy checks (length, characters) happen in the handlers so they can return specific codes
+const credential = () => string({ max: MAX_LOGIN_INPUT_LENGTH });
+
+const CredentialsBody = object({
+    username: credential(),
+    password: credential(),
+    deviceName: optional(string({ max: 255 }))
+});
+
+const RecoverBody = object({
+    username: credential(),
+    code: string({ max: 64 }),
+    newPassword: credential(),
+    deviceName: optional(string({ max: 255 }))
+});
+
+const RefreshBody = object({ refreshToken: string({ min: 1, max: 256 }) });
+
+const PasswordChangeBody = object({ currentPassword: credential(), newPassword: credential() });
+
+const RenameBody = object({ username: credential() });
+
+const PasswordConfirmationBody = object({ password: credential() });
+
+const clientIp = (req: Request) => req.ip || req.socket.remoteAddress || '';
+
+const sessionInfo = (req: Request) => ({
+    deviceName: typeof req.body?.deviceName === 'string' ? req.body.deviceName : '',
+    userAgent: req.get('user-agent') || '',
+    ip: clientIp(req)
+});
+
+const rejectCredentials = (res: Response, code: CredentialError) =>
+    sendError(res, 400, code, credentialErrorMessage(code));
+
+// Middleware to authenticate token.
+// 401 means the client should refresh its access token, 403 that the session is gone.
 export const authenticateToken = (req: Request, res: Response, next: NextFunction) => {
     const authHeader = req.headers['authorization'];
     const token = authHeader && authHeader.split(' ')[1];
 
     if (!token) {
-        return res.sendStatus(401);
+        return sendError(res, 401, 'token_missing', 'Access token required');
     }
 
-    jwt.verify(token, JWT_SECRET, (err: any, user: any) => {
+    jwt.verify(token, JWT_SECRET, async (err: any, payload: any) => {
         if (err) {
-            return res.sendStatus(403);
+            if (err instanceof jwt.TokenExpiredError) {
+                return sendError(res, 401, 'token_expired', 'Access token expired');
+            }
+            return sendError(res, 401, 'token_invalid', 'Invalid access token');
+        }
+
+        const user = payload as AccessTokenPayload;
+        // Tokens issued before sessions existed never expire, so they are no longer accepted
+        if (!user.sid) {
+            return sendError(res, 403, 'session_revoked', 'Session required');
         }
+
+        try {
+            if (!(await isSessionActive(user.sid, user.id))) {
+                return sendError(res, 403, 'session_revoked', 'Session revoked');
+            }
+        } catch (error) {
+            logger.error('Session check error', { error });
+            return sendInternalError(res);
+        }
+
         (req as any).user = user;
         next();
     });
 };
 
-router.post('/register', async (req: Request, res: Response) => {
+router.post('/register', validateBody(CredentialsBody), async (req: Request, res: Response) => {
     const { username, password } = req.body;
-    const ip = req.ip || req.socket.remoteAddress;
-    console.log(`Registration attempt for user: ${username} from IP: ${ip}`);
+    const ip = clientIp(req);
+    logger.info('Registration attempt', { username, ip });
 
-    if (!username || !password) {
-        return res.status(400).json({ error: 'Username and password are required' });
+    const ipKey = `register:${ip}`;
+    if (rejectIfLocked(res, ipKey)) return;
+
+    const invalid = validateUsername(username) || validatePassword(password, username);
+    if (invalid) {
+        return rejectCredentials(res, invalid);
     }
 
+    // Every valid registration counts towards the per-address limit
+    recordFailure(ipKey, REGISTRATION_POLICY);
+
     try {
         const hashedPassword = await bcrypt.hash(password, 10);
         const result = await query(
@@ -41,45 +116,324 @@ router.post('/register', async (req: Request, res: Response) => {
         );
 
         const user = result.rows[0];
-        const token = jwt.sign({ id: user.id, username: user.username }, JWT_SECRET);
+        const tokens = await createSession(user, sessionInfo(req));
+        const recoveryCodes = await generateRecoveryCodes(user.id);
 
-        res.status(201).json({ user, token });
+        res.status(201).json({ user, ...tokens, recoveryCodes });
     } catch (error: any) {
         if (error.code === '23505') { // Unique violation
-            return res.status(409).json({ error: 'Username already exists' });
+            return sendError(res, 409, 'username_taken', 'Username already exists');
         }
-        console.error('Registration error:', error);
-        res.status(500).json({ error: 'Internal server error' });
+        logger.error('Registration error', { error });
+        sendInternalError(res);
     }
 });
 
-router.post('/login', async (req: Request, res: Response) => {
+// Failed logins are counted per username and per address. Both keys lock out for
+// progressively longer once their limit is hit; a successful login clears the username.
+// Every attempt counts as failed until its password checked out.
+router.post('/login', validateBody(CredentialsBody), async (req: Request, res: Response) => {
     const { username, password } = req.body;
-    const ip = req.ip || req.socket.remoteAddress;
-    console.log(`Login attempt for user: ${username} from IP: ${ip}`);
+    const ip = clientIp(req);
+    logger.info('Login attempt', { username, ip });
+
+    if (!username || !password) {
+        return sendError(res, 400, 'credentials_required', 'Username and password are required');
+    }
+
+    const userKey = `login-user:${username.toLowerCase()}`;
+    const ipKey = `login-ip:${ip}`;
+    if (rejectIfLocked(res, userKey, ipKey)) return;
+    recordFailure(userKey, USERNAME_POLICY);
+    recordFailure(ipKey, IP_POLICY);
 
     try {
         const result = await query('SELECT * FROM users WHERE username = $1', [username]);
         const user = result.rows[0];
 
-        if (!user) {
-            return res.status(401).json({ error: 'Invalid credentials' });
-        }
-
-        const validPassword = await bcrypt.compare(password, user.password_hash);
-        if (!validPassword) {
-            return res.status(401).json({ error: 'Invalid credentials' });
+        const validPassword = await bcrypt.compare(password, user ? user.password_hash : DUMMY_PASSWORD_HASH);
+        if (!user || !validPassword) {
+            return sendError(res, 401, 'invalid_credentials', 'Invalid credentials');
         }
 
-        const token = jwt.sign({ id: user.id, username: user.username }, JWT_SECRET);
+        resetFailures(userKey);
+        forgiveFailure(ipKey);
+        const tokens = await createSession(user, sessionInfo(req));
 
         // Don't send password hash back
         delete user.password_hash;
 
-        res.json({ user, token });
+        res.json({ user, ...tokens });
+    } catch (error) {
+        logger.error('Login error', { error });
+        sendInternalError(res);
+    }
+});
+
+// Resets a forgotten password with a one-time recovery code. Signs out every device,
+// since whoever knew the old password may still be logged in.
+router.post('/recover', validateBody(RecoverBody), async (req: Request, res: Response) => {
+    const { username, code, newPassword } = req.body;
+    const ip = clientIp(req);
+    logger.info('Recovery attempt', { username, ip });
+
+    if (!username || !code) {
+        return sendError(res, 400, 'credentials_required', 'Username and recovery code are required');
+    }
+
+    const userKey = `recover-user:${username.toLowerCase()}`;
+    const ipKey = `recover-ip:${ip}`;
+    if (rejectIfLocked(res, userKey, ipKey)) return;
+
+    const invalid = validatePassword(newPassword, username);
+    if (invalid) {
+        return rejectCredentials(res, invalid);
+    }
+
+    // Counted as failed until the code checked out, like logins
+    recordFailure(userKey, USERNAME_POLICY);
+    recordFailure(ipKey, IP_POLICY);
+
+    try {
+        const result = await query('SELECT id, username, created_at FROM users WHERE username = $1', [username]);
+        const user = result.rows[0];
+        // Hashed before the transaction so no row lock is held during the bcrypt work. Also
+        // done for unknown usernames, so the response time does not tell them apart.
+        const hashedPassword = await bcrypt.hash(newPassword, 10);
+
+        // The code is only used up together with the new password and the sign-out
+        const client = await getClient();
+        try {
+            await client.query('BEGIN');
+            if (!user || !(await consumeRecoveryCode(client, user.id, code))) {
+                await client.query('ROLLBACK');
+                return sendError(res, 401, 'recovery_invalid', 'Invalid username or recovery code');
+            }
+            await client.query('UPDATE users SET password_hash = $2 WHERE id = $1', [user.id, hashedPassword]);
+            await revokeAllSessions(client, user.id);
+            await client.query('COMMIT');
+        } catch (error) {
+            await client.query('ROLLBACK');
+            throw error;
+        } finally {
+            client.release();
+        }
+        closeStreams(user.id);
+
+        resetFailures(userKey);
+        forgiveFailure(ipKey);
+
+        const tokens = await createSession(user, sessionInfo(req));
+        const { remaining } = await getRecoveryStatus(user.id);
+
+        res.json({ user, ...tokens, remainingRecoveryCodes: remaining });
+    } catch (error) {
+        logger.error('Recovery error', { error });
+        sendInternalError(res);
+    }
+});
+
+router.post('/refresh', validateBody(RefreshBody), async (req: Request, res: Response) => {
+    const { refreshToken } = req.body;
+
+    try {
+        const tokens = await rotateSession(refreshToken, sessionInfo(req));
+        res.json(tokens);
+    } catch (error) {
+        if (error instanceof RefreshError) {
+            return sendError(res, 401, 'refresh_invalid', error.message);
+        }
+        logger.error('Refresh error', { error });
+        sendInternalError(res);
+    }
+});
+
+// Ends the current device session
+router.post('/logout', authenticateToken, async (req: Request, res: Response) => {
+    const user = (req as any).user as AccessTokenPayload;
+
+    try {
+        await revokeSession(user.sid, user.id);
+        res.sendStatus(204);
+    } catch (error) {
+        logger.error('Logout error', { error });
+        sendInternalError(res);
+    }
+});
+
+router.get('/sessions', authenticateToken, async (req: Request, res: Response) => {
+    const user = (req as any).user as AccessTokenPayload;
+
+    try {
+        const sessions = await listSessions(user.id);
+        res.json({
+            sessions: sessions.map(session => ({ ...session, current: session.id === user.sid }))
+        });
+    } catch (error) {
+        logger.error('Session list error', { error });
+        sendInternalError(res);
+    }
+});
+
+router.delete('/sessions/:id', authenticateToken, async (req: Request, res: Response) => {
+    const user = (req as any).user as AccessTokenPayload;
+    const sessionId = String(req.params.id);
+
+    if (!UUID_PATTERN.test(sessionId)) {
+        return sendError(res, 404, 'not_found', 'Session not found');
+    }
+
+    try {
+        if (!(await revokeSession(sessionId, user.id))) {
+            return sendError(res, 404, 'not_found', 'Session not found');
+        }
+        res.sendStatus(204);
+    } catch (error) {
+        logger.error('Session revoke error', { error });
+        sendInternalError(res);
+    }
+});
+
+router.get('/me', authenticateToken, async (req: Request, res: Response) => {
+    const user = (req as any).user as AccessTokenPayload;
+
+    try {
+        const result = await query('SELECT id, username, created_at FROM users WHERE id = $1', [user.id]);
+        if (result.rows.length === 0) {
+            return sendError(res, 404, 'not_found', 'User not found');
+        }
+        res.json({ user: result.rows[0] });
+    } catch (error) {
+        logger.error('Profile error', { error });
+        sendInternalError(res);
+    }
+});
+
+// Checks the password of the authenticated user and returns their row. Sends the error
+// response itself and returns null when the password is wrong or the account no longer exists.
+// A wrong password is a 400 because 401 tells the client to refresh its access token.
+const confirmPassword = async (userId: string, password: string, res: Response): Promise<{ username: string } | null> => {
+    if (!password) {
+        sendError(res, 400, 'password_required', 'Current password is required');
+        return null;
+    }
+
+    // A stolen access token must not allow guessing the password
+    const confirmKey = `confirm:${userId}`;
+    if (rejectIfLocked(res, confirmKey)) return null;
+    recordFailure(confirmKey, USERNAME_POLICY); // Cleared below once the password checked out
+
+    const result = await query('SELECT username, password_hash FROM users WHERE id = $1', [userId]);
+    const row = result.rows[0];
+    if (!row) {
+        sendError(res, 404, 'not_found', 'User not found');
+        return null;
+    }
+
+    if (!(await bcrypt.compare(password, row.password_hash))) {
+        sendError(res, 400, 'password_incorrect', 'Incorrect password');
+        return null;
+    }
+
+    resetFailures(confirmKey);
+    return { username: row.username };
+};
+
+// Changes the password and signs out every other device
+router.put('/password', authenticateToken, validateBody(PasswordChangeBody), async (req: Request, res: Response) => {
+    const user = (req as any).user as AccessTokenPayload;
+    const { currentPassword, newPassword } = req.body;
+
+    try {
+        const row = await confirmPassword(user.id, currentPassword, res);
+        if (!row) return;
+
+        // The token may carry a name from before a rename
+        const invalid = validatePassword(newPassword, row.username);
+        if (invalid) {
+            return rejectCredentials(res, invalid);
+        }
+
+        const hashedPassword = await bcrypt.hash(newPassword, 10);
+        await query('UPDATE users SET password_hash = $2 WHERE id = $1', [user.id, hashedPassword]);
+        await revokeOtherSessions(user.id, user.sid);
+
+        res.sendStatus(204);
+    } catch (error) {
+        logger.error('Password change error', { error });
+        sendInternalError(res);
+    }
+});
+
+router.get('/recovery-codes', authenticateToken, async (req: Request, res: Response) => {
+    const user = (req as any).user as AccessTokenPayload;
+
+    try {
+        res.json(await getRecoveryStatus(user.id));
+    } catch (error) {
+        logger.error('Recovery status error', { error });
+        sendInternalError(res);
+    }
+});
+
+// Replaces the recovery codes. The plain codes are only ever returned here and at registration.
+router.post('/recovery-codes', authenticateToken, validateBody(PasswordConfirmationBody), async (req: Request, res: Response) => {
+    const user = (req as any).user as AccessTokenPayload;
+
+    try {
+        if (!(await confirmPassword(user.id, req.body.password, res))) return;
+
+        const recoveryCodes = await generateRecoveryCodes(user.id);
+        res.json({ recoveryCodes });
+    } catch (error) {
+        logger.error('Recovery code generation error', { error });
+        sendInternalError(res);
+    }
+});
+
+// Renames the account. Access tokens carry the old name until they are refreshed.
+router.patch('/account', authenticateToken, validateBody(RenameBody), async (req: Request, res: Response) => {
+    const user = (req as any).user as AccessTokenPayload;
+    const { username } = req.body;
+
+    const invalid = validateUsername(username);
+    if (invalid) {
+        return rejectCredentials(res, invalid);
+    }
+
+    try {
+        const result = await query(
+            'UPDATE users SET username = $2 WHERE id = $1 RETURNING id, username, created_at',
+            [user.id, username]
+        );
+        if (result.rows.length === 0) {
+            return sendError(res, 404, 'not_found', 'User not found');
+        }
+        res.json({ user: result.rows[0] });
+    } catch (error: any) {
+        if (error.code === '23505') { // Unique violation
+            return sendError(res, 409, 'username_taken', 'Username already exists');
+        }
+        logger.error('Rename error', { error });
+        sendInternalError(res);
+    }
+});
+
+// Deletes the account together with its words, reviews, settings and sessions (ON DELETE CASCADE)
+router.delete('/account', authenticateToken, validateBody(PasswordConfirmationBody), async (req: Request, res: Response) => {
+    const user = (req as any).user as AccessTokenPayload;
+
+    try {
+        if (!(await confirmPassword(user.id, req.body.password, res))) return;
+
+        await query('DELETE FROM users WHERE id = $1', [user.id]);
+        closeStreams(user.id);
+        logger.info('Deleted account', { userId: user.id });
+
+        res.sendStatus(204);
     } catch (error) {
-        console.error('Login error:', error);
-        res.status(500).json({ error: 'Internal server error' });
+        logger.error('Account deletion error', { error });
+        sendInternalError(res);
     }
 });
 
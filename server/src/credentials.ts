@@ -0,0 +1,46 @@
+// Username and password rules for registration, renames and password changes.
+// Each check returns an error code the client can show, or null if the value is acceptable.
+
+export type CredentialError =
+    | 'username_required'
+    | 'username_length'
+    | 'username_characters'
+    | 'password_required'
+    | 'password_too_short'
+    | 'password_too_long'
+    | 'password_matches_username';
+
+export const USERNAME_MIN_LENGTH = 3;
+export const USERNAME_MAX_LENGTH = 32;
+export const PASSWORD_MIN_LENGTH = 8;
+export const PASSWORD_MAX_BYTES = 72; // bcrypt ignores everything after 72 bytes
+
+const USERNAME_PATTERN = /^[\p{L}\p{N}._-]+$/u;
+
+const MESSAGES: Record<CredentialError, string> = {
+    username_required: 'Username is required',
+    username_length: `Username must be ${USERNAME_MIN_LENGTH} to ${USERNAME_MAX_LENGTH} characters long`,
+    username_characters: 'Username may only contain letters, digits, dots, dashes and underscores',
+    password_required: 'Password is required',
+    password_too_short: `Password must be at least ${PASSWORD_MIN_LENGTH} characters long`,
+    password_too_long: `Password must be at most ${PASSWORD_MAX_BYTES} bytes long`,
+    password_matches_username: 'Password must not be the same as the username'
+};
+
+export const credentialErrorMessage = (code: CredentialError) => MESSAGES[code];
+
+export const validateUsername = (username: unknown): CredentialError | null => {
+    if (typeof username !== 'string' || username.length === 0) return 'username_required';
+    const length = [...username].length;
+    if (length < USERNAME_MIN_LENGTH || length > USERNAME_MAX_LENGTH) return 'username_length';
+    if (!USERNAME_PATTERN.test(username)) return 'username_characters';
+    return null;
+};
+
+export const validatePassword = (password: unknown, username?: string): CredentialError | null => {
+    if (typeof password !== 'string' || password.length === 0) return 'password_required';
+    if ([...password].length < PASSWORD_MIN_LENGTH) return 'password_too_short';
+    if (Buffer.byteLength(password, 'utf8') > PASSWORD_MAX_BYTES) return 'password_too_long';
+    if (username && password.toLowerCase() === username.toLowerCase()) return 'password_matches_username';
+    return null;
+};
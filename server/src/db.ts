@@ -11,29 +11,22 @@ export const query = (text: string, params?: any[]) => pool.query(text, params);
 
 export const getClient = () => pool.connect();
 
-import fs from 'fs';
-import path from 'path';
+export const closePool = () => pool.end();
+
+export const poolStats = () => ({ total: pool.totalCount, idle: pool.idleCount, waiting: pool.waitingCount });
+
+import { runMigrations } from './migrator';
+import { logger } from './logger';
 
 export const migrate = async () => {
+    const client = await getClient();
     try {
-        const schemaPath = path.join(__dirname, 'schema.sql');
-        const schema = fs.readFileSync(schemaPath, 'utf8');
-        await query(schema);
-
-        // Check if language column exists
-        try {
-            await query('SELECT language FROM words LIMIT 1');
-        } catch (e) {
-            console.log('Adding language column to words table...');
-            await query("ALTER TABLE words ADD COLUMN language VARCHAR(10) NOT NULL DEFAULT 'de'");
-        }
-
-        // Always ensure index exists
-        await query("CREATE INDEX IF NOT EXISTS idx_words_language ON words(language)");
-
-        console.log('Migration successful');
+        const applied = await runMigrations(client);
+        logger.info(applied.length > 0 ? 'Migration successful' : 'Database schema is up to date', { applied: applied.length });
     } catch (error) {
-        console.error('Migration failed:', error);
+        logger.error('Migration failed', { error });
         process.exit(1);
+    } finally {
+        client.release();
     }
 };
@@ -0,0 +1,104 @@
+import { Router, Request, Response } from 'express';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { logger } from './logger';
+import { sendError } from './errors';
+
+// Dictionary archives are <lang>.db.gz in DICTIONARY_DIR. Each language has a manifest that apps
+// check before downloading: the version decides whether to update, size and SHA-256 let them
+// verify the download. The version comes from the <lang>.manifest.json written by
+// scripts/build-dictionary-db.cjs, or from the archive's modification date when there is none.
+// Size and checksum are always computed from the archive itself, so they cannot go stale.
+
+export const DICTIONARY_DIR = path.join(__dirname, '../dictionaries');
+
+export interface DictionaryManifest {
+    lang: string;
+    version: string;
+    size: number;
+    sha256: string;
+    url: string;
+}
+
+const router = Router();
+
+// Hashing a large archive takes a while, so manifests are kept until the file changes
+const manifests = new Map<string, { mtimeMs: number; size: number; manifest: Promise<DictionaryManifest> }>();
+
+const LANGUAGE = /^[a-z]{2,3}$/;
+
+const hashFile = (file: string) => new Promise<string>((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(file)
+        .on('data', chunk => hash.update(chunk))
+        .on('end', () => resolve(hash.digest('hex')))
+        .on('error', reject);
+});
+
+// 20241115093000 for 2024-11-15 09:30:00 UTC, so that versions compare as strings
+const dateVersion = (date: Date) => date.toISOString().replace(/\D/g, '').slice(0, 14);
+
+const readVersion = async (lang: string) => {
+    try {
+        const sidecar = JSON.parse(await fs.promises.readFile(path.join(DICTIONARY_DIR, `${lang}.manifest.json`), 'utf8'));
+        return typeof sidecar.version === 'string' ? sidecar.version : null;
+    } catch {
+        return null;
+    }
+};
+
+const buildManifest = async (lang: string, file: string, stat: fs.Stats): Promise<DictionaryManifest> => {
+    const [version, sha256] = await Promise.all([readVersion(lang), hashFile(file)]);
+    logger.info('Dictionary manifest built', { lang, version, size: stat.size });
+    return {
+        lang,
+        version: version || dateVersion(stat.mtime),
+        size: stat.size,
+        sha256,
+        url: `/dictionaries/${lang}.db.gz`
+    };
+};
+
+// Null when there is no archive for the language
+export const dictionaryManifest = async (lang: string) => {
+    const file = path.join(DICTIONARY_DIR, `${lang}.db.gz`);
+    const stat = await fs.promises.stat(file).catch(() => null);
+    if (!stat?.isFile()) {
+        manifests.delete(lang);
+        return null;
+    }
+
+    const cached = manifests.get(lang);
+    if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) return cached.manifest;
+
+    const manifest = buildManifest(lang, file, stat);
+    manifests.set(lang, { mtimeMs: stat.mtimeMs, size: stat.size, manifest });
+    manifest.catch(() => manifests.delete(lang));
+    return manifest;
+};
+
+router.get('/manifest', async (req: Request, res: Response) => {
+    const files = await fs.promises.readdir(DICTIONARY_DIR).catch(() => [] as string[]);
+    const langs = files.map(name => /^([a-z]{2,3})\.db\.gz$/.exec(name)?.[1]).filter((lang): lang is string => !!lang);
+
+    const languages: Record<string, DictionaryManifest> = {};
+    for (const lang of langs) {
+        const manifest = await dictionaryManifest(lang);
+        if (manifest) languages[lang] = manifest;
+    }
+    res.setHeader('Cache-Control', 'no-cache');
+    res.json({ languages });
+});
+
+router.get('/:lang/manifest', async (req: Request, res: Response) => {
+    const lang = String(req.params.lang);
+    const manifest = LANGUAGE.test(lang) ? await dictionaryManifest(lang) : null;
+    if (!manifest) {
+        return sendError(res, 404, 'not_found', `No dictionary for language "${lang}"`);
+    }
+    res.setHeader('Cache-Control', 'no-cache');
+    res.json(manifest);
+});
+
+export default router;
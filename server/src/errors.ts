@@ -0,0 +1,62 @@
+import { Request, Response, NextFunction } from 'express';
+import { logger } from './logger';
+
+// Every error response has the shape { error, code, ...details }. `error` is a human readable
+// message, `code` is stable and meant for clients to branch on.
+export type ErrorCode =
+    | 'invalid_request'
+    | 'payload_too_large'
+    | 'client_outdated'
+    | 'server_outdated'
+    | 'internal_error'
+    | 'not_found'
+    // Authentication and sessions
+    | 'token_missing'
+    | 'token_expired'
+    | 'token_invalid'
+    | 'session_revoked'
+    | 'refresh_invalid'
+    | 'too_many_attempts'
+    // Accounts
+    | 'credentials_required'
+    | 'invalid_credentials'
+    | 'username_taken'
+    | 'password_incorrect'
+    | 'recovery_invalid'
+    | 'username_required'
+    | 'username_length'
+    | 'username_characters'
+    | 'password_required'
+    | 'password_too_short'
+    | 'password_too_long'
+    | 'password_matches_username'
+    // Sync
+    | 'settings_conflict'
+    // Text to speech
+    | 'unsupported_language'
+    | 'unknown_voice'
+    | 'tts_busy'
+    | 'tts_timeout'
+    | 'tts_failed';
+
+export const sendError = (res: Response, status: number, code: ErrorCode, message: string, details: object = {}) =>
+    res.status(status).json({ error: message, code, ...details });
+
+export const sendInternalError = (res: Response) => sendError(res, 500, 'internal_error', 'Internal server error');
+
+// Last middleware: turns body parser failures and unexpected exceptions into JSON errors
+export const errorHandler = (err: any, req: Request, res: Response, next: NextFunction) => {
+    if (res.headersSent) {
+        return next(err);
+    }
+
+    if (err?.type === 'entity.parse.failed') {
+        return sendError(res, 400, 'invalid_request', 'Request body is not valid JSON');
+    }
+    if (err?.type === 'entity.too.large') {
+        return sendError(res, 413, 'payload_too_large', 'Request body too large');
+    }
+
+    logger.error('Unhandled error', { error: err });
+    sendInternalError(res);
+};
@@ -0,0 +1,84 @@
+import { Request, Response } from 'express';
+
+interface Subscriber {
+    res: Response;
+    deviceId: string;
+    sessionId: string;
+    close: () => void;
+}
+
+// Open event streams per user. Lives in memory, so it only reaches clients
+// connected to this server process.
+const subscribers = new Map<string, Set<Subscriber>>();
+
+const HEARTBEAT_INTERVAL = 25 * 1000; // Keeps proxies from closing idle connections
+
+const send = (res: Response, event: string, data: object) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+// Server-Sent Events stream that tells a client when another of the user's devices synced.
+// It ends when the access token expires, so the client reconnects with a fresh token and
+// the session is checked again.
+export const subscribe = (req: Request, res: Response) => {
+    const user = (req as any).user;
+    const deviceId = typeof req.query.deviceId === 'string' ? req.query.deviceId : '';
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx response buffering
+    res.flushHeaders();
+
+    let userSubscribers = subscribers.get(user.id);
+    if (!userSubscribers) {
+        userSubscribers = new Set();
+        subscribers.set(user.id, userSubscribers);
+    }
+
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL);
+    const expiry = typeof user.exp === 'number' ? setTimeout(() => close(), user.exp * 1000 - Date.now()) : undefined;
+
+    let closed = false;
+    const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        clearTimeout(expiry);
+        userSubscribers!.delete(subscriber);
+        if (userSubscribers!.size === 0 && subscribers.get(user.id) === userSubscribers) {
+            subscribers.delete(user.id);
+        }
+        res.end();
+    };
+
+    const subscriber: Subscriber = { res, deviceId, sessionId: user.sid, close };
+    userSubscribers.add(subscriber);
+
+    res.write('retry: 5000\n\n');
+    send(res, 'ready', { timestamp: Date.now() });
+
+    req.on('close', close);
+};
+
+// Ends the user's streams whose session matches, e.g. when sessions are revoked, so a
+// signed-out device stops receiving notifications
+export const closeStreams = (userId: string, matchSession: (sessionId: string) => boolean = () => true) => {
+    const userSubscribers = subscribers.get(userId);
+    if (!userSubscribers) return;
+
+    for (const subscriber of [...userSubscribers]) {
+        if (matchSession(subscriber.sessionId)) subscriber.close();
+    }
+};
+
+// Tells the user's other connected devices that new changes can be pulled
+export const notifyUser = (userId: string, originDeviceId: string | undefined, timestamp: number) => {
+    const userSubscribers = subscribers.get(userId);
+    if (!userSubscribers) return;
+
+    for (const subscriber of userSubscribers) {
+        if (originDeviceId && subscriber.deviceId === originDeviceId) continue;
+        send(subscriber.res, 'changes', { timestamp });
+    }
+};
@@ -7,137 +7,108 @@ dotenv.config();
 const app = express();
 const port = process.env.PORT || 6900;
 
-app.use(cors());
+// Number of reverse proxies in front of the server, so req.ip is the client address the auth rate limits key on
+if (process.env.TRUST_PROXY) {
+    app.set('trust proxy', parseInt(process.env.TRUST_PROXY));
+}
+
+import { PROTOCOL_HEADER, requireProtocolVersion } from './protocol';
+import { errorHandler, sendError } from './errors';
+import { logger, requestLogger, REQUEST_ID_HEADER } from './logger';
+import { trackRequests, metricsHandler } from './metrics';
+import { MAX_SYNC_BODY_BYTES } from './sync';
+
+app.use(requestLogger);
+app.use(trackRequests);
+
+// Browsers only let the app read response headers that are listed here. The validators and
+// Content-Range are for resuming dictionary downloads.
+app.use(cors({ exposedHeaders: [PROTOCOL_HEADER, REQUEST_ID_HEADER, 'Retry-After', 'X-TTS-Voice', 'ETag', 'Last-Modified', 'Content-Range'] }));
+// A sync page validation accepts must never be refused as too large, or the app's outbox
+// would retry it forever. Everything else keeps the small default, and the parser that runs
+// first leaves the body alone for the second.
+app.use('/sync', express.json({ limit: MAX_SYNC_BODY_BYTES }));
 app.use(express.json());
 
 import authRouter from './auth';
-app.use('/auth', authRouter);
+app.use('/auth', requireProtocolVersion, authRouter);
 
 import syncRouter from './sync';
-app.use('/sync', syncRouter);
+app.use('/sync', requireProtocolVersion, syncRouter);
 
-app.get('/health', (req, res) => {
-    res.json({ status: 'ok', timestamp: new Date().toISOString() });
-});
-
-app.get('/ping', (req, res) => {
-    console.log('Ping received!');
-    res.json({ status: 'ok', message: 'pong' });
-});
-
-import { spawn } from 'child_process';
+import settingsRouter from './settings';
+app.use('/settings', requireProtocolVersion, settingsRouter);
 
-app.get('/tts', (req, res) => {
-    const text = req.query.text as string;
-    if (!text) {
-        res.status(400).send('Missing text parameter');
-        return;
-    }
-
-    const startTime = Date.now();
-    console.log(`[TTS] Received request for: "${text}"`);
-
-    const piperPath = path.resolve('/app/piper/piper');
-    const modelPath = path.resolve('/app/piper-model/de_DE-thorsten-high.onnx');
+import ttsRouter from './tts';
+app.use('/tts', requireProtocolVersion, ttsRouter);
 
-    console.log(`[TTS] Spawning Piper process...`);
+import fs from 'fs';
+import { PIPER_PATH, missingDefaultVoices } from './voices';
 
-    const piperProcess = spawn(piperPath, [
-        '--model', modelPath,
-        '--output_file', '-' // Output to stdout
-    ]);
+const HEALTH_CHECK_TIMEOUT = 2000;
 
-    res.setHeader('Content-Type', 'audio/wav');
+const withTimeout = <T>(promise: Promise<T>, ms: number) => Promise.race([
+    promise,
+    new Promise<never>((_, reject) => setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms).unref())
+]);
 
-    piperProcess.stdout.pipe(res);
-
-    piperProcess.stdin.write(text);
-    piperProcess.stdin.end();
+const checkDatabase = async () => {
+    const start = Date.now();
+    try {
+        await withTimeout(query('SELECT 1'), HEALTH_CHECK_TIMEOUT);
+        return { status: 'ok', latencyMs: Date.now() - start };
+    } catch (error) {
+        return { status: 'error', error: error instanceof Error ? error.message : String(error) };
+    }
+};
 
-    piperProcess.stderr.on('data', (data) => {
-        const msg = data.toString();
-        if (msg.includes('Error') || msg.includes('error')) {
-            console.error(`[Piper Error]: ${msg}`);
-        } else {
-            console.log(`[Piper Log]: ${msg.trim()}`);
-        }
-    });
+const checkPiper = async () => {
+    try {
+        await fs.promises.access(PIPER_PATH, fs.constants.X_OK);
+    } catch (error) {
+        return { status: 'error', error: error instanceof Error ? error.message : String(error) };
+    }
 
-    piperProcess.on('close', (code) => {
-        const duration = Date.now() - startTime;
-        if (code !== 0) {
-            console.error(`[TTS] Failed. Piper process exited with code ${code} after ${duration}ms`);
-            if (!res.headersSent) {
-                res.status(500).send('TTS Generation Failed');
-            }
-        } else {
-            console.log(`[TTS] Success! Audio generated in ${duration}ms`);
-        }
+    const missingModels = missingDefaultVoices();
+    if (missingModels.length > 0) {
+        return { status: 'error', error: 'Voice models missing', missingModels };
+    }
+    return { status: 'ok' };
+};
+
+// 503 when the database is unreachable. Without Piper only TTS is down, which is reported as degraded.
+app.get('/health', async (req, res) => {
+    const [database, piper] = await Promise.all([checkDatabase(), checkPiper()]);
+    const status = database.status !== 'ok' ? 'error' : piper.status !== 'ok' ? 'degraded' : 'ok';
+
+    res.status(status === 'error' ? 503 : 200).json({
+        status,
+        timestamp: new Date().toISOString(),
+        checks: { database, piper }
     });
 });
 
-app.post('/tts/bulk', async (req, res) => {
-    const { texts } = req.body;
-    if (!texts || !Array.isArray(texts)) {
-        res.status(400).json({ error: 'Missing or invalid "texts" array' });
-        return;
-    }
-
-    console.log(`[TTS Bulk] Received request for ${texts.length} items`);
-    const results: { text: string; audio: string | null; error?: string }[] = [];
-
-    const piperPath = path.resolve('/app/piper/piper');
-    const modelPath = path.resolve('/app/piper-model/de_DE-thorsten-high.onnx');
-
-    // Process sequentially to avoid overloading the server
-    for (const text of texts) {
-        try {
-            const audioBase64 = await new Promise<string>((resolve, reject) => {
-                const piperProcess = spawn(piperPath, [
-                    '--model', modelPath,
-                    '--output_file', '-'
-                ]);
-
-                let audioChunks: Buffer[] = [];
-                piperProcess.stdout.on('data', (chunk) => audioChunks.push(chunk));
-
-                piperProcess.stdin.write(text);
-                piperProcess.stdin.end();
-
-                piperProcess.on('close', (code) => {
-                    if (code !== 0) {
-                        reject(new Error(`Piper exited with code ${code}`));
-                    } else {
-                        const audioBuffer = Buffer.concat(audioChunks);
-                        resolve(audioBuffer.toString('base64'));
-                    }
-                });
-
-                piperProcess.on('error', (err) => reject(err));
-            });
-
-            results.push({ text, audio: audioBase64 });
-        } catch (error) {
-            console.error(`[TTS Bulk] Failed for "${text}":`, error);
-            results.push({ text, audio: null, error: String(error) });
-        }
-    }
+app.get('/metrics', metricsHandler);
 
-    res.json({ results });
+app.get('/ping', (req, res) => {
+    logger.debug('Ping received');
+    res.json({ status: 'ok', message: 'pong' });
 });
 
-
-import path from 'path';
 import os from 'os';
 
-import { migrate } from './db';
+import { migrate, query } from './db';
+
+// Serve dictionary files and their manifests. The static files answer Range and If-Range
+// requests, which the app uses to resume interrupted downloads.
+import dictionariesRouter, { DICTIONARY_DIR } from './dictionaries';
+app.use('/dictionaries', dictionariesRouter, express.static(DICTIONARY_DIR, { acceptRanges: true }));
+
+app.use((req, res) => {
+    sendError(res, 404, 'not_found', 'Not found');
+});
 
-// Serve dictionary files
-// Serve dictionary files
-app.use('/dictionaries', (req, res, next) => {
-    console.log(`[Dictionary Request] ${req.method} ${req.url}`);
-    next();
-}, express.static(path.join(__dirname, '../dictionaries')));
+app.use(errorHandler);
 
 migrate().then(() => {
     app.listen(Number(port), '0.0.0.0', () => {
@@ -146,9 +117,6 @@ migrate().then(() => {
             .flat()
             .find((iface) => iface?.family === 'IPv4' && !iface.internal)?.address;
 
-        console.log(`Server running on port ${port}`);
-        if (ip) {
-            console.log(`Network access: http://${ip}:${port}`);
-        }
+        logger.info('Server running', { port: Number(port), networkUrl: ip ? `http://${ip}:${port}` : undefined });
     });
 });
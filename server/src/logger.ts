@@ -0,0 +1,74 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+
+// One JSON object per line on stdout (stderr for warnings and errors), so log collectors can
+// index the fields. Lines written while handling a request carry its requestId.
+
+type Level = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVELS: Record<Level, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const minLevel = LEVELS[process.env.LOG_LEVEL as Level] ?? LEVELS.info;
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Accept IDs assigned by a reverse proxy so its logs and ours can be joined
+const INCOMING_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+const context = new AsyncLocalStorage<{ requestId: string }>();
+
+export const currentRequestId = () => context.getStore()?.requestId;
+
+const serialize = (value: unknown) => {
+    if (value instanceof Error) {
+        return { ...value, name: value.name, message: value.message, stack: value.stack };
+    }
+    return value;
+};
+
+const write = (level: Level, message: string, fields: Record<string, unknown> = {}) => {
+    if (LEVELS[level] < minLevel) return;
+
+    const entry: Record<string, unknown> = { time: new Date().toISOString(), level, msg: message };
+    const requestId = currentRequestId();
+    if (requestId) entry.requestId = requestId;
+    for (const [key, value] of Object.entries(fields)) {
+        entry[key] = serialize(value);
+    }
+
+    const stream = LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout;
+    stream.write(JSON.stringify(entry) + '\n');
+};
+
+export const logger = {
+    debug: (message: string, fields?: Record<string, unknown>) => write('debug', message, fields),
+    info: (message: string, fields?: Record<string, unknown>) => write('info', message, fields),
+    warn: (message: string, fields?: Record<string, unknown>) => write('warn', message, fields),
+    error: (message: string, fields?: Record<string, unknown>) => write('error', message, fields)
+};
+
+// First middleware: assigns the request ID, returns it to the client and logs the finished request
+export const requestLogger = (req: Request, res: Response, next: NextFunction) => {
+    const incoming = req.get(REQUEST_ID_HEADER);
+    const requestId = incoming && INCOMING_REQUEST_ID.test(incoming) ? incoming : randomUUID();
+    const start = process.hrtime.bigint();
+
+    res.setHeader(REQUEST_ID_HEADER, requestId);
+
+    context.run({ requestId }, () => {
+        res.on('finish', () => {
+            // Listeners run outside the request's async context, so pass the ID explicitly
+            const fields = {
+                requestId,
+                method: req.method,
+                path: req.path,
+                status: res.statusCode,
+                durationMs: Math.round(Number(process.hrtime.bigint() - start) / 1e5) / 10
+            };
+            if (res.statusCode >= 500) logger.error('request', fields);
+            else logger.info('request', fields);
+        });
+        next();
+    });
+};
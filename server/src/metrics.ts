@@ -0,0 +1,129 @@
+import { Request, Response, NextFunction } from 'express';
+import { poolStats } from './db';
+
+// Minimal Prometheus registry rendered in the text exposition format at /metrics.
+// Values live in memory and describe this server process since it started.
+
+type Labels = Record<string, string>;
+
+interface Metric {
+    render: () => string[];
+}
+
+const registry: Metric[] = [];
+
+const escapeLabel = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatLabels = (labels: Labels) => {
+    const entries = Object.entries(labels);
+    if (entries.length === 0) return '';
+    return `{${entries.map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(',')}}`;
+};
+
+// Series are keyed by their rendered label set
+const series = <T>(create: () => T) => {
+    const values = new Map<string, { labels: Labels; value: T }>();
+    return {
+        get: (labels: Labels) => {
+            const key = formatLabels(labels);
+            let entry = values.get(key);
+            if (!entry) {
+                entry = { labels, value: create() };
+                values.set(key, entry);
+            }
+            return entry.value;
+        },
+        entries: () => [...values.values()]
+    };
+};
+
+export const counter = (name: string, help: string) => {
+    const values = series(() => ({ count: 0 }));
+    registry.push({
+        render: () => [
+            `# HELP ${name} ${help}`,
+            `# TYPE ${name} counter`,
+            ...values.entries().map(({ labels, value }) => `${name}${formatLabels(labels)} ${value.count}`)
+        ]
+    });
+    return {
+        inc: (labels: Labels = {}, amount = 1) => {
+            values.get(labels).count += amount;
+        }
+    };
+};
+
+export const histogram = (name: string, help: string, buckets: number[]) => {
+    const values = series(() => ({ buckets: buckets.map(() => 0), sum: 0, count: 0 }));
+    registry.push({
+        render: () => [
+            `# HELP ${name} ${help}`,
+            `# TYPE ${name} histogram`,
+            ...values.entries().flatMap(({ labels, value }) => [
+                ...buckets.map((bound, i) => `${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${value.buckets[i]}`),
+                `${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`,
+                `${name}_sum${formatLabels(labels)} ${value.sum}`,
+                `${name}_count${formatLabels(labels)} ${value.count}`
+            ])
+        ]
+    });
+    return {
+        observe: (labels: Labels, observed: number) => {
+            const value = values.get(labels);
+            buckets.forEach((bound, i) => {
+                if (observed <= bound) value.buckets[i]++;
+            });
+            value.sum += observed;
+            value.count++;
+        }
+    };
+};
+
+// Read when /metrics is scraped
+export const gauge = (name: string, help: string, collect: () => number) => {
+    registry.push({
+        render: () => [`# HELP ${name} ${help}`, `# TYPE ${name} gauge`, `${name} ${collect()}`]
+    });
+};
+
+const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+const httpRequests = counter('http_requests_total', 'HTTP requests by route and status');
+const httpDuration = histogram('http_request_duration_seconds', 'HTTP request latency by route', DURATION_BUCKETS);
+
+export const piperDuration = histogram('piper_synthesis_duration_seconds', 'Time Piper took to synthesize one text', DURATION_BUCKETS);
+
+export const syncBatchSize = histogram('sync_batch_size', 'Items per sync page by direction and kind', [0, 1, 10, 50, 100, 250, 500, 1000]);
+
+gauge('db_pool_connections', 'Connections held by the Postgres pool', () => poolStats().total);
+gauge('db_pool_idle_connections', 'Idle connections in the Postgres pool', () => poolStats().idle);
+gauge('db_pool_waiting_requests', 'Queries waiting for a Postgres connection', () => poolStats().waiting);
+gauge('process_resident_memory_bytes', 'Resident memory of the server process', () => process.memoryUsage().rss);
+
+// Route pattern rather than the URL, so IDs and query strings don't create a series each
+const routeLabel = (req: Request) => {
+    if (req.route) return req.baseUrl + req.route.path;
+    return req.baseUrl || 'unmatched';
+};
+
+export const trackRequests = (req: Request, res: Response, next: NextFunction) => {
+    const start = process.hrtime.bigint();
+    res.on('finish', () => {
+        const route = routeLabel(req);
+        httpRequests.inc({ method: req.method, route, status: String(res.statusCode) });
+        httpDuration.observe({ method: req.method, route }, Number(process.hrtime.bigint() - start) / 1e9);
+    });
+    next();
+};
+
+// Protected by METRICS_TOKEN when it is set, since the route is public otherwise
+export const metricsHandler = (req: Request, res: Response) => {
+    const token = process.env.METRICS_TOKEN;
+    if (token && req.get('Authorization') !== `Bearer ${token}`) {
+        res.sendStatus(401);
+        return;
+    }
+
+    res.setHeader('Content-Type', 'text/plain; version=0.0.4');
+    res.send(registry.flatMap(metric => metric.render()).join('\n') + '\n');
+};
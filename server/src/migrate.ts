@@ -0,0 +1,47 @@
+import { getClient, closePool } from './db';
+import { getMigrationStatus, runMigrations } from './migrator';
+
+// Schema migration command line.
+//   npm run migrate -- status      List applied and pending migrations
+//   npm run migrate -- up          Apply pending migrations
+//   npm run migrate -- up --dry-run  Print what would be applied without changing anything
+
+const formatVersion = (version: number) => String(version).padStart(3, '0');
+
+const main = async () => {
+    const [command = 'status', ...flags] = process.argv.slice(2);
+    const client = await getClient();
+
+    try {
+        if (command === 'status') {
+            const { applied, pending, unknown } = await getMigrationStatus(client);
+            for (const m of applied) {
+                console.log(`  applied  ${formatVersion(m.version)}_${m.name}  ${new Date(m.appliedAt).toISOString()}`);
+            }
+            for (const m of pending) {
+                console.log(`  pending  ${formatVersion(m.version)}_${m.name}`);
+            }
+            for (const m of unknown) {
+                console.log(`  unknown  ${formatVersion(m.version)}_${m.name}  (not in this server version)`);
+            }
+            console.log(`${applied.length} applied, ${pending.length} pending`);
+        } else if (command === 'up') {
+            const dryRun = flags.includes('--dry-run');
+            const migrations = await runMigrations(client, { dryRun });
+            console.log(dryRun
+                ? `${migrations.length} migration(s) would be applied`
+                : `${migrations.length} migration(s) applied`);
+        } else {
+            console.error('Usage: npm run migrate -- <status|up> [--dry-run]');
+            process.exitCode = 1;
+        }
+    } finally {
+        client.release();
+        await closePool();
+    }
+};
+
+main().catch(error => {
+    console.error(error);
+    process.exit(1);
+});
@@ -0,0 +1,7 @@
+import { MigrationUp } from '../migrator';
+
+// Tables created before multi-language support have no language column
+export const up: MigrationUp = [
+    "ALTER TABLE words ADD COLUMN IF NOT EXISTS language VARCHAR(10) NOT NULL DEFAULT 'de'",
+    'CREATE INDEX IF NOT EXISTS idx_words_language ON words(language)'
+];
@@ -0,0 +1,19 @@
+import { MigrationUp } from '../migrator';
+
+// Separates the client edit time of the content (content_updated_at) from the
+// server receive time used as the pull cursor (synced_at).
+export const up: MigrationUp = async (client) => {
+    const result = await client.query(
+        "SELECT 1 FROM information_schema.columns WHERE table_name = 'words' AND column_name = 'synced_at'"
+    );
+    const statements = ['CREATE INDEX IF NOT EXISTS idx_words_user_synced_at ON words(user_id, synced_at)'];
+    if (result.rows.length > 0) return statements;
+
+    return [
+        'ALTER TABLE words ADD COLUMN content_updated_at BIGINT NOT NULL DEFAULT 0',
+        'ALTER TABLE words ADD COLUMN synced_at BIGINT NOT NULL DEFAULT (EXTRACT(EPOCH FROM NOW()) * 1000)',
+        // Before this, updated_at was the server receive time, so it is a valid cursor
+        'UPDATE words SET content_updated_at = updated_at, synced_at = updated_at',
+        ...statements
+    ];
+};
@@ -0,0 +1,19 @@
+import { MigrationUp } from '../migrator';
+
+// Append-only review history, synced as immutable events
+export const up: MigrationUp = [
+    `CREATE TABLE IF NOT EXISTS reviews (
+      id UUID PRIMARY KEY,
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      word_id UUID NOT NULL,
+      reviewed_at BIGINT NOT NULL,
+      outcome VARCHAR(16) NOT NULL,
+      previous_score INTEGER NOT NULL,
+      new_score INTEGER NOT NULL,
+      interval_ms BIGINT NOT NULL,
+      device_id VARCHAR(64) NOT NULL,
+      synced_at BIGINT NOT NULL
+    )`,
+    'CREATE INDEX IF NOT EXISTS idx_reviews_user_synced_at ON reviews(user_id, synced_at)',
+    'CREATE INDEX IF NOT EXISTS idx_reviews_word_id ON reviews(word_id)'
+];
@@ -0,0 +1,10 @@
+import { MigrationUp } from '../migrator';
+
+export const up: MigrationUp = [
+    `CREATE TABLE IF NOT EXISTS user_settings (
+      user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+      settings JSONB NOT NULL DEFAULT '{}',
+      version INTEGER NOT NULL DEFAULT 0,
+      updated_at BIGINT NOT NULL
+    )`
+];
@@ -0,0 +1,21 @@
+import { MigrationUp } from '../migrator';
+
+// One row per logged in device. Only hashes of the refresh tokens are stored.
+export const up: MigrationUp = [
+    `CREATE TABLE IF NOT EXISTS sessions (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      device_name VARCHAR(255) NOT NULL DEFAULT '',
+      user_agent TEXT NOT NULL DEFAULT '',
+      ip VARCHAR(64) NOT NULL DEFAULT '',
+      refresh_token_hash CHAR(64) NOT NULL,
+      previous_token_hash CHAR(64),
+      created_at BIGINT NOT NULL,
+      last_used_at BIGINT NOT NULL,
+      expires_at BIGINT NOT NULL,
+      revoked_at BIGINT DEFAULT NULL
+    )`,
+    'CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id)',
+    'CREATE UNIQUE INDEX IF NOT EXISTS idx_sessions_refresh_token_hash ON sessions(refresh_token_hash)',
+    'CREATE INDEX IF NOT EXISTS idx_sessions_previous_token_hash ON sessions(previous_token_hash)'
+];
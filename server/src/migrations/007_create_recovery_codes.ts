@@ -0,0 +1,12 @@
+import { MigrationUp } from '../migrator';
+
+export const up: MigrationUp = [
+    `CREATE TABLE IF NOT EXISTS recovery_codes (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      code_hash CHAR(64) NOT NULL,
+      created_at BIGINT NOT NULL,
+      used_at BIGINT DEFAULT NULL
+    )`,
+    'CREATE INDEX IF NOT EXISTS idx_recovery_codes_user_id ON recovery_codes(user_id)'
+];
@@ -0,0 +1,134 @@
+import fs from 'fs';
+import path from 'path';
+import { PoolClient } from 'pg';
+import { logger } from './logger';
+
+// Numbered schema migrations. Each file in ./migrations is named NNN_description.ts and
+// exports `up`: the SQL statements to run, or a function that inspects the database and
+// returns them. A migration and its schema_migrations row are committed in one transaction.
+// Create new ones with `node scripts/new-migration.cjs server <name>`.
+
+export type MigrationUp = string[] | ((client: PoolClient) => Promise<string[]>);
+
+export interface Migration {
+    version: number;
+    name: string;
+    up: MigrationUp;
+}
+
+export interface AppliedMigration {
+    version: number;
+    name: string;
+    appliedAt: number;
+}
+
+export interface MigrationStatus {
+    applied: AppliedMigration[];
+    pending: Migration[];
+    unknown: AppliedMigration[]; // Applied by a newer server version
+}
+
+const MIGRATIONS_DIR = path.join(__dirname, 'migrations');
+const MIGRATION_FILE = /^(\d+)_(\w+)\.(ts|js)$/;
+
+// Serializes migrations when several server instances start at once
+const MIGRATION_LOCK_ID = 7_420_001;
+
+export const loadMigrations = (): Migration[] => {
+    const migrations = fs.readdirSync(MIGRATIONS_DIR)
+        .map(file => ({ file, match: MIGRATION_FILE.exec(file) }))
+        .filter(({ match }) => match)
+        .map(({ file, match }) => ({
+            version: parseInt(match![1]),
+            name: match![2],
+            up: require(path.join(MIGRATIONS_DIR, file)).up as MigrationUp
+        }))
+        .sort((a, b) => a.version - b.version);
+
+    for (let i = 1; i < migrations.length; i++) {
+        if (migrations[i].version === migrations[i - 1].version) {
+            throw new Error(`Duplicate migration version ${migrations[i].version}`);
+        }
+    }
+    return migrations;
+};
+
+const ensureMigrationsTable = (client: PoolClient) => client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      applied_at BIGINT NOT NULL
+    )
+`);
+
+const readStatus = async (client: PoolClient): Promise<MigrationStatus> => {
+    const result = await client.query('SELECT version, name, applied_at FROM schema_migrations ORDER BY version');
+    const applied: AppliedMigration[] = result.rows.map(row => ({
+        version: row.version,
+        name: row.name,
+        appliedAt: parseInt(row.applied_at)
+    }));
+    const migrations = loadMigrations();
+    const appliedVersions = new Set(applied.map(m => m.version));
+    const knownVersions = new Set(migrations.map(m => m.version));
+
+    return {
+        applied,
+        pending: migrations.filter(m => !appliedVersions.has(m.version)),
+        unknown: applied.filter(m => !knownVersions.has(m.version))
+    };
+};
+
+export const getMigrationStatus = async (client: PoolClient) => {
+    await ensureMigrationsTable(client);
+    return readStatus(client);
+};
+
+// Applies all pending migrations in order and returns the ones that ran. With dryRun the
+// statements are only logged; function migrations still inspect the database inside a
+// transaction that is rolled back.
+export const runMigrations = async (client: PoolClient, { dryRun = false } = {}) => {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+
+    try {
+        await ensureMigrationsTable(client);
+        const { pending, unknown } = await readStatus(client);
+
+        if (unknown.length > 0) {
+            logger.warn('Database has migrations this server does not know', { versions: unknown.map(m => m.version) });
+        }
+
+        for (const migration of pending) {
+            const label = `${String(migration.version).padStart(3, '0')}_${migration.name}`;
+
+            await client.query('BEGIN');
+            try {
+                const statements = typeof migration.up === 'function' ? await migration.up(client) : migration.up;
+
+                if (dryRun) {
+                    console.log(`Would apply ${label}:`);
+                    statements.forEach(statement => console.log(`  ${statement.trim()}`));
+                    await client.query('ROLLBACK');
+                    continue;
+                }
+
+                for (const statement of statements) {
+                    await client.query(statement);
+                }
+                await client.query(
+                    'INSERT INTO schema_migrations (version, name, applied_at) VALUES ($1, $2, $3)',
+                    [migration.version, migration.name, Date.now()]
+                );
+                await client.query('COMMIT');
+                logger.info('Applied migration', { migration: label });
+            } catch (error) {
+                await client.query('ROLLBACK');
+                throw new Error(`Migration ${label} failed: ${error instanceof Error ? error.message : error}`);
+            }
+        }
+
+        return pending;
+    } finally {
+        await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]);
+    }
+};
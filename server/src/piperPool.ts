@@ -0,0 +1,225 @@
+import { spawn } from 'child_process';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import readline from 'readline';
+import { logger } from './logger';
+import { counter, gauge, piperDuration } from './metrics';
+import { PIPER_PATH, Voice } from './voices';
+
+// A bounded set of long-running Piper processes shared by every TTS route. Each worker has one
+// voice model loaded and takes one text at a time over --json-input, so the model is only loaded
+// when a worker starts. Jobs wait in a queue that serves its owners (client addresses) round robin,
+// so one large bulk request cannot starve single requests from other clients.
+
+const CONCURRENCY = Math.max(1, Number(process.env.TTS_CONCURRENCY) || os.cpus().length);
+const QUEUE_LIMIT = Number(process.env.TTS_QUEUE_LIMIT) || 400;
+const JOB_TIMEOUT = Number(process.env.TTS_JOB_TIMEOUT_MS) || 30 * 1000; // Counted from when the job is queued
+const IDLE_TIMEOUT = 5 * 60 * 1000; // Warm workers exit after this long without work
+
+const OUTPUT_DIR = path.join(os.tmpdir(), `piper-${process.pid}`);
+
+export class PoolBusyError extends Error {
+    constructor(public retryAfter: number) {
+        super('Text-to-speech queue is full');
+    }
+}
+
+export class SynthesisTimeoutError extends Error { }
+
+interface Job {
+    text: string;
+    voice: Voice;
+    resolve: (audio: Buffer) => void;
+    reject: (error: Error) => void;
+    timer: ReturnType<typeof setTimeout>;
+    worker: Worker | null; // Set once the job leaves the queue
+}
+
+interface Worker {
+    model: string;
+    busy: boolean;
+    exited: boolean;
+    idleTimer: ReturnType<typeof setTimeout> | null;
+    synthesize: (text: string) => Promise<Buffer>;
+    stop: () => void;
+}
+
+const workers = new Set<Worker>();
+
+// Owner -> waiting jobs. Owners are served in Map order and move to the back after each job.
+const queues = new Map<string, Job[]>();
+let queued = 0;
+
+let averageJobMs = 1000;
+
+const rejectedJobs = counter('tts_jobs_rejected_total', 'TTS jobs refused because the queue was full or they waited past their timeout');
+gauge('tts_queue_length', 'TTS jobs waiting for a Piper worker', () => queued);
+gauge('tts_workers', 'Running Piper workers', () => workers.size);
+gauge('tts_workers_busy', 'Piper workers synthesizing right now', () => [...workers].filter(w => w.busy).length);
+
+const logPiperOutput = (data: Buffer) => {
+    const msg = data.toString().trim();
+    if (/error/i.test(msg)) {
+        logger.error('Piper error', { output: msg });
+    } else {
+        logger.debug('Piper output', { output: msg });
+    }
+};
+
+const startWorker = (voice: Voice): Worker => {
+    fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+
+    const child = spawn(PIPER_PATH, ['--model', voice.modelPath, '--json-input', '--output_dir', OUTPUT_DIR]);
+    child.stderr.on('data', logPiperOutput);
+
+    // Piper prints the path of each written file on its own line
+    let pending: { resolve: (file: string) => void; reject: (error: Error) => void } | null = null;
+    const settle = () => {
+        const current = pending;
+        pending = null;
+        return current;
+    };
+    const fail = (error: Error) => settle()?.reject(error);
+
+    readline.createInterface({ input: child.stdout }).on('line', line => settle()?.resolve(line.trim()));
+    child.stdin.on('error', fail);
+    child.on('error', fail);
+    child.on('exit', (code, signal) => {
+        worker.exited = true;
+        workers.delete(worker);
+        if (worker.idleTimer) clearTimeout(worker.idleTimer);
+        fail(new Error(`Piper exited with ${signal || `code ${code}`}`));
+    });
+
+    const worker: Worker = {
+        model: voice.model,
+        busy: false,
+        exited: false,
+        idleTimer: null,
+        synthesize: async (text: string) => {
+            const file = path.join(OUTPUT_DIR, `${crypto.randomUUID()}.wav`);
+            const written = await new Promise<string>((resolve, reject) => {
+                pending = { resolve, reject };
+                child.stdin.write(JSON.stringify({ text, output_file: file }) + '\n');
+            });
+            try {
+                return await fs.promises.readFile(written || file);
+            } finally {
+                fs.promises.rm(written || file, { force: true }).catch(() => { });
+            }
+        },
+        stop: () => {
+            child.kill();
+        }
+    };
+
+    workers.add(worker);
+    logger.debug('Started Piper worker', { model: voice.model, workers: workers.size });
+    return worker;
+};
+
+// An idle worker with the voice loaded, a new one if there is room, or an idle worker of
+// another voice replaced by one for this voice. Null when every worker is busy.
+const acquireWorker = (voice: Voice) => {
+    const idle = [...workers].filter(w => !w.busy && !w.exited);
+    const warm = idle.find(w => w.model === voice.model);
+    if (warm) return warm;
+
+    if (workers.size < CONCURRENCY) return startWorker(voice);
+
+    if (idle.length > 0) {
+        idle[0].stop();
+        workers.delete(idle[0]);
+        return startWorker(voice);
+    }
+    return null;
+};
+
+const nextJob = () => {
+    const [owner, jobs] = queues.entries().next().value!;
+    queues.delete(owner);
+    const job = jobs.shift()!;
+    if (jobs.length > 0) queues.set(owner, jobs);
+    queued--;
+    return job;
+};
+
+// A job still waiting for a worker at its deadline is dropped from the queue and answered as busy,
+// so the client retries later instead of holding its request open. A running one stops its worker.
+const expire = (owner: string, job: Job) => {
+    if (job.worker) {
+        job.reject(new SynthesisTimeoutError(`Synthesis did not finish within ${JOB_TIMEOUT}ms`));
+        job.worker.stop();
+        return;
+    }
+
+    const jobs = queues.get(owner)!;
+    jobs.splice(jobs.indexOf(job), 1);
+    if (jobs.length === 0) queues.delete(owner);
+    queued--;
+    rejectedJobs.inc();
+    job.reject(new PoolBusyError(retryAfter()));
+};
+
+const run = async (worker: Worker, job: Job) => {
+    worker.busy = true;
+    if (worker.idleTimer) clearTimeout(worker.idleTimer);
+    job.worker = worker;
+
+    const startTime = Date.now();
+
+    try {
+        job.resolve(await worker.synthesize(job.text));
+        piperDuration.observe({ outcome: 'success' }, (Date.now() - startTime) / 1000);
+        averageJobMs = averageJobMs * 0.9 + (Date.now() - startTime) * 0.1;
+    } catch (error) {
+        piperDuration.observe({ outcome: 'failure' }, (Date.now() - startTime) / 1000);
+        job.reject(error instanceof Error ? error : new Error(String(error)));
+    } finally {
+        clearTimeout(job.timer);
+        worker.busy = false;
+        if (!worker.exited) {
+            worker.idleTimer = setTimeout(() => worker.stop(), IDLE_TIMEOUT);
+            worker.idleTimer.unref();
+        }
+        schedule();
+    }
+};
+
+const schedule = () => {
+    while (queued > 0) {
+        const [, jobs] = queues.entries().next().value!;
+        const worker = acquireWorker(jobs[0].voice);
+        if (!worker) return;
+        run(worker, nextJob());
+    }
+};
+
+// Seconds until the queue has probably drained enough to accept work again
+export const retryAfter = () => Math.max(1, Math.ceil((queued * averageJobMs) / CONCURRENCY / 1000));
+
+export const hasCapacity = (jobs: number) => queued + jobs <= QUEUE_LIMIT;
+
+// Queues the text for synthesis. Rejects with PoolBusyError right away when the queue is full,
+// or later when the text waited for a worker until its timeout.
+export const synthesize = (text: string, voice: Voice, owner: string) => new Promise<Buffer>((resolve, reject) => {
+    if (queued >= QUEUE_LIMIT) {
+        rejectedJobs.inc();
+        reject(new PoolBusyError(retryAfter()));
+        return;
+    }
+
+    const job: Job = { text, voice, resolve, reject, timer: setTimeout(() => expire(owner, job), JOB_TIMEOUT), worker: null };
+    const jobs = queues.get(owner) || [];
+    jobs.push(job);
+    queues.set(owner, jobs);
+    queued++;
+    schedule();
+});
+
+process.on('exit', () => {
+    workers.forEach(worker => worker.stop());
+    fs.rmSync(OUTPUT_DIR, { recursive: true, force: true });
+});
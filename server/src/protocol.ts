@@ -0,0 +1,31 @@
+import { Request, Response, NextFunction } from 'express';
+import { sendError } from './errors';
+
+// Version of the API contract between the app and the server. Bump it whenever request or
+// response bodies change incompatibly, and raise MIN_PROTOCOL_VERSION once old apps would
+// corrupt data with the new server.
+//   1: single-request /sync, tokens without expiry (no header sent)
+//   2: paginated /sync/push and /sync/pull, refresh tokens, strict request validation
+export const PROTOCOL_VERSION = 2;
+// Version 1 apps cannot refresh the short-lived access tokens, so they are asked to update
+export const MIN_PROTOCOL_VERSION = 2;
+
+export const PROTOCOL_HEADER = 'X-Protocol-Version';
+
+// Rejects apps that speak a protocol this server cannot serve. Apps that predate the
+// header are version 1.
+export const requireProtocolVersion = (req: Request, res: Response, next: NextFunction) => {
+    res.setHeader(PROTOCOL_HEADER, String(PROTOCOL_VERSION));
+
+    const header = req.get(PROTOCOL_HEADER);
+    const version = header ? parseInt(header) : 1;
+    const supported = { minVersion: MIN_PROTOCOL_VERSION, maxVersion: PROTOCOL_VERSION };
+
+    if (!Number.isInteger(version) || version < MIN_PROTOCOL_VERSION) {
+        return sendError(res, 426, 'client_outdated', 'This app version is no longer supported. Please update the app.', supported);
+    }
+    if (version > PROTOCOL_VERSION) {
+        return sendError(res, 426, 'server_outdated', 'The server is older than this app. Please update the server.', supported);
+    }
+    next();
+};
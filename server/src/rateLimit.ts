@@ -0,0 +1,114 @@
+import { Response } from 'express';
+import { sendError } from './errors';
+
+// Failed-attempt tracking for the auth routes. Lives in memory like the event streams,
+// so limits are per server process and reset on restart.
+
+interface AttemptRecord {
+    failures: number;
+    windowStart: number;
+    lockedUntil: number;
+    lockouts: number; // Consecutive lockouts, each one doubles the next lock duration
+    lastFailureAt: number;
+}
+
+export interface LimitPolicy {
+    maxFailures: number; // Failures allowed within the window before locking
+    window: number;
+    baseLockout: number;
+    maxLockout: number;
+}
+
+const FORGET_AFTER = 24 * 60 * 60 * 1000; // Lockout history is dropped after a quiet day
+const CLEANUP_INTERVAL = 10 * 60 * 1000;
+
+// Guessing one account's password
+export const USERNAME_POLICY: LimitPolicy = {
+    maxFailures: 5,
+    window: 15 * 60 * 1000,
+    baseLockout: 60 * 1000,
+    maxLockout: 60 * 60 * 1000
+};
+
+// Spraying passwords across accounts from one address, which may be a shared NAT
+export const IP_POLICY: LimitPolicy = {
+    maxFailures: 30,
+    window: 15 * 60 * 1000,
+    baseLockout: 5 * 60 * 1000,
+    maxLockout: 60 * 60 * 1000
+};
+
+// Account creation; every registration counts, not only failures
+export const REGISTRATION_POLICY: LimitPolicy = {
+    maxFailures: 10,
+    window: 60 * 60 * 1000,
+    baseLockout: 60 * 60 * 1000,
+    maxLockout: 24 * 60 * 60 * 1000
+};
+
+const records = new Map<string, AttemptRecord>();
+
+setInterval(() => {
+    const now = Date.now();
+    for (const [key, record] of records) {
+        if (record.lockedUntil < now && now - record.lastFailureAt > FORGET_AFTER) {
+            records.delete(key);
+        }
+    }
+}, CLEANUP_INTERVAL).unref();
+
+// Milliseconds until the key may try again, 0 if it is not locked
+export const lockedFor = (key: string) => {
+    const record = records.get(key);
+    if (!record) return 0;
+    return Math.max(0, record.lockedUntil - Date.now());
+};
+
+export const recordFailure = (key: string, policy: LimitPolicy) => {
+    const now = Date.now();
+    let record = records.get(key);
+
+    if (!record || now - record.lastFailureAt > FORGET_AFTER) {
+        record = { failures: 0, windowStart: now, lockedUntil: 0, lockouts: 0, lastFailureAt: now };
+        records.set(key, record);
+    }
+
+    if (now - record.windowStart > policy.window) {
+        record.failures = 0;
+        record.windowStart = now;
+    }
+
+    record.failures++;
+    record.lastFailureAt = now;
+
+    if (record.failures >= policy.maxFailures) {
+        const duration = Math.min(policy.baseLockout * 2 ** record.lockouts, policy.maxLockout);
+        record.lockedUntil = now + duration;
+        record.lockouts++;
+        record.failures = 0;
+        record.windowStart = now;
+    }
+};
+
+export const resetFailures = (key: string) => {
+    records.delete(key);
+};
+
+// Takes back a failure that was counted before the attempt's outcome was known. Attempts
+// are counted up front so parallel requests cannot all pass rejectIfLocked before the
+// first of them fails.
+export const forgiveFailure = (key: string) => {
+    const record = records.get(key);
+    if (record && record.failures > 0) record.failures--;
+};
+
+// Sends 429 with Retry-After if any of the keys is locked. Returns true when the request was rejected.
+export const rejectIfLocked = (res: Response, ...keys: string[]) => {
+    const wait = Math.max(...keys.map(lockedFor));
+    if (wait === 0) return false;
+
+    const retryAfter = Math.ceil(wait / 1000);
+    res.setHeader('Retry-After', String(retryAfter));
+    sendError(res, 429, 'too_many_attempts', 'Too many attempts, try again later', { retryAfter });
+    return true;
+};
@@ -0,0 +1,75 @@
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
+import { query, getClient } from './db';
+
+// One-time recovery codes replace email based password resets. Codes are shown to the
+// user once and only their hashes are stored. 16 characters of base32 give 80 random bits,
+// enough that a plain SHA-256 (like the refresh tokens) cannot be brute forced from a leak.
+
+export const RECOVERY_CODE_COUNT = 10;
+const CODE_LENGTH = 16;
+const ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ'; // No 0/O or 1/I to misread
+
+// Accepts codes typed with lowercase letters, spaces or dashes
+const normalizeCode = (code: string) => code.toUpperCase().replace(/[\s-]/g, '');
+
+const hashCode = (code: string) => crypto.createHash('sha256').update(normalizeCode(code)).digest('hex');
+
+const generateCode = () => {
+    const bytes = crypto.randomBytes(CODE_LENGTH);
+    let code = '';
+    for (let i = 0; i < CODE_LENGTH; i++) {
+        code += ALPHABET[bytes[i] % ALPHABET.length]; // 256 is a multiple of 32, so no bias
+    }
+    return code.match(/.{4}/g)!.join('-');
+};
+
+// Replaces all of the user's codes with a fresh set and returns them in plain text. The old
+// codes are only gone once the new ones are stored, and the user row lock keeps two
+// concurrent regenerations from both leaving their codes behind.
+export const generateRecoveryCodes = async (userId: string) => {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateCode);
+    const now = Date.now();
+
+    const client = await getClient();
+    try {
+        await client.query('BEGIN');
+        await client.query('SELECT 1 FROM users WHERE id = $1 FOR UPDATE', [userId]);
+        await client.query('DELETE FROM recovery_codes WHERE user_id = $1', [userId]);
+        await client.query(
+            `INSERT INTO recovery_codes (user_id, code_hash, created_at)
+       SELECT $1, hash, $3 FROM unnest($2::text[]) AS hash`,
+            [userId, codes.map(hashCode), now]
+        );
+        await client.query('COMMIT');
+    } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+    } finally {
+        client.release();
+    }
+
+    return codes;
+};
+
+export const getRecoveryStatus = async (userId: string) => {
+    const result = await query(
+        'SELECT COUNT(*) FILTER (WHERE used_at IS NULL) AS remaining, MAX(created_at) AS generated_at FROM recovery_codes WHERE user_id = $1',
+        [userId]
+    );
+    const row = result.rows[0];
+    return {
+        remaining: parseInt(row.remaining),
+        generatedAt: row.generated_at ? parseInt(row.generated_at) : null
+    };
+};
+
+// Marks the code as used on the caller's transaction, so the code stays valid if the reset
+// it was used for fails. Returns false if it is unknown or was already used.
+export const consumeRecoveryCode = async (client: PoolClient, userId: string, code: string) => {
+    const result = await client.query(
+        'UPDATE recovery_codes SET used_at = $3 WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL RETURNING id',
+        [userId, hashCode(code), Date.now()]
+    );
+    return result.rows.length > 0;
+};
@@ -0,0 +1,180 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { PoolClient } from 'pg';
+import { query } from './db';
+import { logger } from './logger';
+import { closeStreams } from './events';
+
+const ACCESS_TOKEN_TTL = 15 * 60; // seconds
+const REFRESH_TOKEN_TTL = 60 * 24 * 60 * 60 * 1000; // 60 days, extended on every refresh
+const REUSE_GRACE_PERIOD = 30 * 1000;
+
+const resolveSecret = () => {
+    if (process.env.JWT_SECRET) return process.env.JWT_SECRET;
+    // A random secret differs per process and restart, which would invalidate every access
+    // token on deploys and between instances
+    if (process.env.NODE_ENV === 'production') {
+        throw new Error('JWT_SECRET must be set in production');
+    }
+    // Access tokens are short-lived and refresh tokens live in the database,
+    // so during development a per-process secret only costs clients one refresh after a restart.
+    logger.warn('JWT_SECRET is not set, using a random secret for this process');
+    return crypto.randomBytes(32).toString('hex');
+};
+
+export const JWT_SECRET = resolveSecret();
+
+export interface AccessTokenPayload {
+    id: string;
+    username: string;
+    sid: string; // Session the token was issued for
+}
+
+export interface SessionInfo {
+    deviceName: string;
+    userAgent: string;
+    ip: string;
+}
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const generateRefreshToken = () => crypto.randomBytes(48).toString('base64url');
+
+export const signAccessToken = (payload: AccessTokenPayload) =>
+    jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL });
+
+const issueTokens = (user: { id: string; username: string }, sessionId: string, refreshToken: string) => ({
+    token: signAccessToken({ id: user.id, username: user.username, sid: sessionId }),
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL
+});
+
+// Starts a new device session and returns its first token pair
+export const createSession = async (user: { id: string; username: string }, info: SessionInfo) => {
+    const refreshToken = generateRefreshToken();
+    const now = Date.now();
+
+    const result = await query(
+        `INSERT INTO sessions (user_id, device_name, user_agent, ip, refresh_token_hash, created_at, last_used_at, expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $6, $7)
+     RETURNING id`,
+        [user.id, info.deviceName.slice(0, 255), info.userAgent, info.ip, hashToken(refreshToken), now, now + REFRESH_TOKEN_TTL]
+    );
+
+    return issueTokens(user, result.rows[0].id, refreshToken);
+};
+
+export class RefreshError extends Error { }
+
+// Exchanges a refresh token for a new token pair. Every refresh token is single use:
+// presenting one that was already rotated means it leaked, so the whole session is revoked.
+// The only exception is a retry right after a rotation whose response never reached the client.
+export const rotateSession = async (refreshToken: string, info: Pick<SessionInfo, 'ip'>) => {
+    const tokenHash = hashToken(refreshToken);
+    const now = Date.now();
+
+    const result = await query(
+        `SELECT s.id, s.expires_at, s.revoked_at, s.last_used_at, s.refresh_token_hash, s.refresh_token_hash = $1 AS is_current, u.id AS user_id, u.username
+     FROM sessions s JOIN users u ON u.id = s.user_id
+     WHERE s.refresh_token_hash = $1 OR s.previous_token_hash = $1`,
+        [tokenHash]
+    );
+    const session = result.rows[0];
+
+    if (!session) {
+        throw new RefreshError('Invalid refresh token');
+    }
+
+    if (session.revoked_at || parseInt(session.expires_at) < now) {
+        throw new RefreshError('Session expired');
+    }
+
+    if (!session.is_current && now - parseInt(session.last_used_at) > REUSE_GRACE_PERIOD) {
+        await query('UPDATE sessions SET revoked_at = $2 WHERE id = $1', [session.id, now]);
+        closeStreams(session.user_id, sid => sid === session.id);
+        logger.warn('Refresh token reuse detected, revoked session', { sessionId: session.id, userId: session.user_id });
+        throw new RefreshError('Invalid refresh token');
+    }
+
+    const user = { id: session.user_id, username: session.username };
+    const nextToken = generateRefreshToken();
+
+    // Only rotates if no other refresh did since the SELECT, so two concurrent refreshes with
+    // the same token cannot overwrite the token pair the first one handed out
+    const rotated = await query(
+        `UPDATE sessions SET
+       previous_token_hash = $2,
+       refresh_token_hash = $3,
+       last_used_at = $4,
+       expires_at = $5,
+       ip = $6
+     WHERE id = $1 AND refresh_token_hash = $7
+     RETURNING id`,
+        [session.id, tokenHash, hashToken(nextToken), now, now + REFRESH_TOKEN_TTL, info.ip, session.refresh_token_hash]
+    );
+
+    if (rotated.rows.length === 0) {
+        // Lost the race: the other request returns the new refresh token, this one only
+        // gets an access token so that refresh token stays valid
+        logger.info('Concurrent refresh, issuing access token only', { sessionId: session.id });
+        return { token: signAccessToken({ ...user, sid: session.id }), expiresIn: ACCESS_TOKEN_TTL };
+    }
+
+    return issueTokens(user, session.id, nextToken);
+};
+
+export const isSessionActive = async (sessionId: string, userId: string) => {
+    const result = await query(
+        'SELECT 1 FROM sessions WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL AND expires_at > $3',
+        [sessionId, userId, Date.now()]
+    );
+    return result.rows.length > 0;
+};
+
+export const listSessions = async (userId: string) => {
+    const result = await query(
+        `SELECT id, device_name, user_agent, ip, created_at, last_used_at
+     FROM sessions
+     WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > $2
+     ORDER BY last_used_at DESC`,
+        [userId, Date.now()]
+    );
+
+    return result.rows.map(row => ({
+        id: row.id,
+        deviceName: row.device_name,
+        userAgent: row.user_agent,
+        ip: row.ip,
+        createdAt: parseInt(row.created_at),
+        lastUsedAt: parseInt(row.last_used_at)
+    }));
+};
+
+// Signs the user out on every device, e.g. after a password reset. Runs on the caller's
+// transaction so the reset and the sign-out happen together; the caller closes the user's
+// event streams once it committed.
+export const revokeAllSessions = async (client: PoolClient, userId: string) => {
+    await client.query(
+        'UPDATE sessions SET revoked_at = $2 WHERE user_id = $1 AND revoked_at IS NULL',
+        [userId, Date.now()]
+    );
+};
+
+// Signs the user out everywhere except the given session, e.g. after a password change
+export const revokeOtherSessions = async (userId: string, keepSessionId: string) => {
+    await query(
+        'UPDATE sessions SET revoked_at = $3 WHERE user_id = $1 AND id <> $2 AND revoked_at IS NULL',
+        [userId, keepSessionId, Date.now()]
+    );
+    closeStreams(userId, sid => sid !== keepSessionId);
+};
+
+// Returns false if the session does not exist or belongs to someone else
+export const revokeSession = async (sessionId: string, userId: string) => {
+    const result = await query(
+        'UPDATE sessions SET revoked_at = $3 WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL RETURNING id',
+        [sessionId, userId, Date.now()]
+    );
+    closeStreams(userId, sid => sid === sessionId);
+    return result.rows.length > 0;
+};
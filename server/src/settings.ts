@@ -0,0 +1,78 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken } from './auth';
+import { query } from './db';
+import { notifyUser } from './events';
+import { sendError, sendInternalError } from './errors';
+import { validateBody, object, jsonObject, integer, timestamp, string, optional, Infer } from './validation';
+import { logger } from './logger';
+
+const router = Router();
+
+// Serialized settings are small; anything bigger is not a settings document
+const MAX_SETTINGS_SIZE = 64 * 1024;
+
+const SettingsBody = object({
+    settings: jsonObject(),
+    baseVersion: integer({ min: 0 }),
+    updatedAt: timestamp(),
+    deviceId: optional(string({ max: 64 }))
+});
+
+const rowToSettings = (row: any) => ({
+    settings: row.settings,
+    version: row.version,
+    updatedAt: parseInt(row.updated_at)
+});
+
+router.get('/', authenticateToken, async (req: Request, res: Response) => {
+    const user = (req as any).user;
+
+    try {
+        const result = await query('SELECT settings, version, updated_at FROM user_settings WHERE user_id = $1', [user.id]);
+        if (result.rows.length === 0) {
+            return res.json({ settings: null, version: 0, updatedAt: 0 });
+        }
+        res.json(rowToSettings(result.rows[0]));
+    } catch (error) {
+        logger.error('Settings fetch error', { error });
+        sendInternalError(res);
+    }
+});
+
+// Replaces the settings document if the client saw the latest version.
+// On a version mismatch the current document is returned with 409 so the client can resolve it.
+router.put('/', authenticateToken, validateBody(SettingsBody), async (req: Request, res: Response) => {
+    const user = (req as any).user;
+    const { settings, baseVersion, updatedAt, deviceId } = req.body as Infer<typeof SettingsBody>;
+
+    if (JSON.stringify(settings).length > MAX_SETTINGS_SIZE) {
+        return sendError(res, 413, 'payload_too_large', 'Settings document too large');
+    }
+
+    try {
+        const result = await query(
+            `INSERT INTO user_settings (user_id, settings, version, updated_at)
+       VALUES ($1, $2, 1, $3)
+       ON CONFLICT (user_id) DO UPDATE SET
+         settings = $2,
+         version = user_settings.version + 1,
+         updated_at = $3
+         WHERE user_settings.version = $4
+       RETURNING settings, version, updated_at`,
+            [user.id, JSON.stringify(settings), updatedAt, baseVersion]
+        );
+
+        if (result.rows.length === 0) {
+            const current = await query('SELECT settings, version, updated_at FROM user_settings WHERE user_id = $1', [user.id]);
+            return sendError(res, 409, 'settings_conflict', 'Settings were changed on another device', rowToSettings(current.rows[0]));
+        }
+
+        notifyUser(user.id, deviceId, Date.now());
+        res.json(rowToSettings(result.rows[0]));
+    } catch (error) {
+        logger.error('Settings update error', { error });
+        sendInternalError(res);
+    }
+});
+
+export default router;
@@ -0,0 +1,65 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { mergeWord } from './sync';
+
+type SyncWord = Parameters<typeof mergeWord>[0];
+
+const word = (overrides: Partial<SyncWord> = {}): SyncWord => ({
+    id: '0f8fad5b-d9cb-469f-a165-70867728950e',
+    original: 'Haus',
+    translation: 'house',
+    article: 'das',
+    language: 'de',
+    score: 1,
+    createdAt: 100,
+    lastReviewedAt: 200,
+    nextReviewAt: 300,
+    updatedAt: 200,
+    contentUpdatedAt: 100,
+    deletedAt: null,
+    ...overrides
+});
+
+describe('mergeWord', () => {
+    test('resolves text and review progress independently', () => {
+        const server = word({ score: 2, lastReviewedAt: 250, nextReviewAt: 900, updatedAt: 250 });
+        const client = word({ translation: 'home', contentUpdatedAt: 150, updatedAt: 150 });
+
+        assert.deepEqual(mergeWord(server, client), word({
+            translation: 'home',
+            contentUpdatedAt: 150,
+            score: 2,
+            lastReviewedAt: 250,
+            nextReviewAt: 900,
+            updatedAt: 250
+        }));
+    });
+
+    test('keeps the server copy on ties', () => {
+        const merged = mergeWord(word({ translation: 'home', score: 3 }), word({ translation: 'building', score: 0 }));
+
+        assert.equal(merged.translation, 'home');
+        assert.equal(merged.score, 3);
+    });
+
+    test('uses the later modification when neither side reviewed later', () => {
+        const rescheduled = word({ nextReviewAt: 400, updatedAt: 220 });
+        const older = word({ nextReviewAt: 500, updatedAt: 210 });
+
+        assert.equal(mergeWord(older, rescheduled).nextReviewAt, 400);
+        assert.equal(mergeWord(rescheduled, older).nextReviewAt, 400);
+    });
+
+    test('keeps deletions and the earliest deletion time', () => {
+        assert.equal(mergeWord(word({ deletedAt: 500 }), word()).deletedAt, 500);
+        assert.equal(mergeWord(word(), word({ deletedAt: 500 })).deletedAt, 500);
+        assert.equal(mergeWord(word({ deletedAt: 600 }), word({ deletedAt: 500 })).deletedAt, 500);
+    });
+
+    test('keeps the earliest creation and the latest modification', () => {
+        const merged = mergeWord(word({ createdAt: 50, updatedAt: 200 }), word({ createdAt: 80, updatedAt: 260 }));
+
+        assert.equal(merged.createdAt, 50);
+        assert.equal(merged.updatedAt, 260);
+    });
+});
@@ -1,6 +1,12 @@
 import { Router, Request, Response } from 'express';
+import { PoolClient } from 'pg';
 import { authenticateToken } from './auth';
-import { query } from './db';
+import { query, getClient } from './db';
+import { subscribe, notifyUser } from './events';
+import { sendError, sendInternalError } from './errors';
+import { validateBody, object, array, string, uuid, integer, timestamp, oneOf, optional, nullable } from './validation';
+import { logger } from './logger';
+import { syncBatchSize } from './metrics';
 
 const router = Router();
 
@@ -15,105 +21,446 @@ interface SyncWord {
     lastReviewedAt: number;
     nextReviewAt: number;
     updatedAt: number;
+    contentUpdatedAt: number;
     deletedAt: number | null;
 }
 
-interface SyncRequest {
-    lastSyncTimestamp: number;
+interface SyncReview {
+    id: string;
+    wordId: string;
+    reviewedAt: number;
+    outcome: 'correct' | 'incorrect';
+    previousScore: number;
+    newScore: number;
+    interval: number;
+    deviceId: string;
+}
+
+interface StreamPosition {
+    syncedAt: number;
+    id: string | null;
+}
+
+// Position of the client in both change streams. Rows are ordered by (synced_at, id),
+// so a page boundary never splits rows that share a synced_at. synced_at follows commit
+// order (see stampChanges), so no row can appear behind a cursor after a pull passed it.
+interface SyncCursor {
+    words: StreamPosition;
+    reviews: StreamPosition;
+}
+
+interface PushRequest {
+    deviceId?: string;
     changes: SyncWord[];
+    reviews?: SyncReview[];
+}
+
+interface PullRequest {
+    deviceId?: string;
+    cursor?: SyncCursor | null;
+    limit?: number;
+}
+
+const MAX_PUSH_PAGE = 500;
+const DEFAULT_PULL_PAGE = 500;
+const MAX_PULL_PAGE = 1000;
+
+const MAX_TEXT_LENGTH = 1000;
+
+// Highest score a client can reach, see MAX_SCORE_LIMIT in src/lib/database.ts
+const MAX_SCORE = 30;
+
+// Body size of the largest push page validation accepts: every change a word with both texts
+// at full length, each character escaped as \uXXXX, plus the other fields
+export const MAX_SYNC_BODY_BYTES = MAX_PUSH_PAGE * (2 * MAX_TEXT_LENGTH * 6 + 1024);
+
+const deviceIdSchema = optional(string({ max: 64 }));
+
+// Fields older clients may leave out are filled in by normalizeWord
+const WordChange = object({
+    id: uuid(),
+    original: string({ min: 1, max: MAX_TEXT_LENGTH }),
+    translation: string({ max: MAX_TEXT_LENGTH }),
+    article: optional(nullable(string({ max: 20 }))),
+    language: optional(string({ max: 10 })),
+    score: integer({ min: 0, max: MAX_SCORE }),
+    createdAt: timestamp(),
+    lastReviewedAt: timestamp(),
+    nextReviewAt: timestamp(),
+    updatedAt: timestamp(),
+    contentUpdatedAt: optional(timestamp()),
+    deletedAt: optional(nullable(timestamp()))
+});
+
+const ReviewChange = object({
+    id: uuid(),
+    wordId: uuid(),
+    reviewedAt: timestamp(),
+    outcome: oneOf('correct', 'incorrect'),
+    previousScore: integer({ min: 0, max: MAX_SCORE }),
+    newScore: integer({ min: 0, max: MAX_SCORE }),
+    interval: integer({ min: 0 }),
+    deviceId: deviceIdSchema
+});
+
+const PushBody = object({
+    deviceId: deviceIdSchema,
+    changes: array(WordChange, { max: MAX_PUSH_PAGE }),
+    reviews: optional(array(ReviewChange, { max: MAX_PUSH_PAGE }))
+});
+
+const Position = object({ syncedAt: timestamp(), id: nullable(uuid()) });
+
+const PullBody = object({
+    deviceId: deviceIdSchema,
+    cursor: optional(nullable(object({ words: Position, reviews: Position }))),
+    limit: optional(integer({ min: 1 }))
+});
+
+// Smallest UUID, used when a position has no id yet
+const MIN_UUID = '00000000-0000-0000-0000-000000000000';
+
+type Resolution = 'rejected' | 'merged';
+
+interface SyncConflict {
+    id: string;
+    resolution: Resolution;
+    word: SyncWord;
 }
 
-router.post('/', authenticateToken, async (req: Request, res: Response) => {
+const REVIEW_COLUMNS = 'id, word_id, reviewed_at, outcome, previous_score, new_score, interval_ms, device_id';
+
+const rowToReview = (row: any): SyncReview => ({
+    id: row.id,
+    wordId: row.word_id,
+    reviewedAt: parseInt(row.reviewed_at),
+    outcome: row.outcome,
+    previousScore: row.previous_score,
+    newScore: row.new_score,
+    interval: parseInt(row.interval_ms),
+    deviceId: row.device_id
+});
+
+const WORD_COLUMNS = 'id, original, translation, article, language, score, created_at, last_reviewed_at, next_review_at, updated_at, content_updated_at, deleted_at';
+
+const rowToWord = (row: any): SyncWord => ({
+    id: row.id,
+    original: row.original,
+    translation: row.translation,
+    article: row.article,
+    language: row.language,
+    score: row.score,
+    createdAt: parseInt(row.created_at),
+    lastReviewedAt: parseInt(row.last_reviewed_at),
+    nextReviewAt: parseInt(row.next_review_at),
+    updatedAt: parseInt(row.updated_at),
+    contentUpdatedAt: parseInt(row.content_updated_at),
+    deletedAt: row.deleted_at ? parseInt(row.deleted_at) : null
+});
+
+// Older clients don't send contentUpdatedAt or language
+const normalizeWord = (word: SyncWord): SyncWord => ({
+    ...word,
+    article: word.article || '',
+    language: word.language || 'de',
+    contentUpdatedAt: word.contentUpdatedAt || word.updatedAt,
+    deletedAt: word.deletedAt || null
+});
+
+// Text edits and review progress are resolved independently, so reviewing a word
+// on one device never discards a translation fix made on another (and vice versa).
+export const mergeWord = (server: SyncWord, client: SyncWord): SyncWord => {
+    // Content: the most recent text edit wins, ties keep the server copy
+    const content = client.contentUpdatedAt > server.contentUpdatedAt ? client : server;
+
+    // Review state: the most recent review wins, falling back to modification time
+    // for changes that reschedule without reviewing (e.g. "review later")
+    const clientReviewedLater = client.lastReviewedAt > server.lastReviewedAt
+        || (client.lastReviewedAt === server.lastReviewedAt && client.updatedAt > server.updatedAt);
+    const review = clientReviewedLater ? client : server;
+
+    // Deletions are sticky: once either side deleted the word it stays deleted
+    const deletedAt = server.deletedAt && client.deletedAt
+        ? Math.min(server.deletedAt, client.deletedAt)
+        : server.deletedAt || client.deletedAt;
+
+    return {
+        id: server.id,
+        original: content.original,
+        translation: content.translation,
+        article: content.article,
+        language: content.language,
+        contentUpdatedAt: content.contentUpdatedAt,
+        score: review.score,
+        lastReviewedAt: review.lastReviewedAt,
+        nextReviewAt: review.nextReviewAt,
+        createdAt: Math.min(server.createdAt, client.createdAt),
+        updatedAt: Math.max(server.updatedAt, client.updatedAt),
+        deletedAt
+    };
+};
+
+const sameWord = (a: SyncWord, b: SyncWord) =>
+    a.original === b.original &&
+    a.translation === b.translation &&
+    a.article === b.article &&
+    a.language === b.language &&
+    a.score === b.score &&
+    a.lastReviewedAt === b.lastReviewedAt &&
+    a.nextReviewAt === b.nextReviewAt &&
+    a.deletedAt === b.deletedAt;
+
+// Typed arrays for unnest(), in WORD_COLUMNS order
+const wordArrays = (words: SyncWord[]) => [
+    words.map(w => w.id),
+    words.map(w => w.original),
+    words.map(w => w.translation),
+    words.map(w => w.article),
+    words.map(w => w.language),
+    words.map(w => w.score),
+    words.map(w => w.createdAt),
+    words.map(w => w.lastReviewedAt),
+    words.map(w => w.nextReviewAt),
+    words.map(w => w.updatedAt),
+    words.map(w => w.contentUpdatedAt),
+    words.map(w => w.deletedAt)
+];
+
+const WORD_ARRAY_TYPES = 'uuid[], text[], text[], text[], varchar[], int[], bigint[], bigint[], bigint[], bigint[], bigint[], bigint[]';
+
+const unnestWords = (firstParam: number) => {
+    const types = WORD_ARRAY_TYPES.split(', ');
+    return `unnest(${types.map((type, i) => `$${firstParam + i}::${type}`).join(', ')})
+       AS c(${WORD_COLUMNS})`;
+};
+
+// Applies client word changes and returns the ones the server merged or rejected, plus the
+// IDs that are taken by another account's words. Those are left alone; the client moves its
+// word to a new ID and pushes it again.
+// Set-based: one SELECT locks every affected row, the merge runs in memory, then all
+// inserts and all updates are written with one statement each.
+const applyWordChanges = async (
+    client: PoolClient,
+    userId: string,
+    changes: SyncWord[],
+    now: number
+): Promise<{ conflicts: SyncConflict[]; rejected: string[] }> => {
+    if (changes.length === 0) return { conflicts: [], rejected: [] };
+
+    // We trust the client's ID if it's a UUID. If it's a new word, client should generate UUID.
+    const words = changes.map(normalizeWord);
+
+    const existing = await client.query(
+        `SELECT user_id, ${WORD_COLUMNS} FROM words WHERE id = ANY($1::uuid[]) FOR UPDATE`,
+        [[...new Set(words.map(w => w.id))]]
+    );
+    const rows = new Map<string, any>(existing.rows.map(row => [row.id, row]));
+
+    const inserts = new Map<string, SyncWord>();
+    const updates = new Map<string, SyncWord>();
+    const conflicts = new Map<string, SyncConflict>();
+    const rejected = new Set<string>();
+
+    for (const word of words) {
+        // A page can contain the same word twice; later entries merge into earlier ones
+        const pendingInsert = inserts.get(word.id);
+        if (pendingInsert) {
+            inserts.set(word.id, mergeWord(pendingInsert, word));
+            continue;
+        }
+
+        const row = rows.get(word.id);
+        if (!row) {
+            inserts.set(word.id, word);
+            continue;
+        }
+
+        // Ensure we only touch words that belong to the user
+        if (row.user_id !== userId) {
+            rejected.add(word.id);
+            continue;
+        }
+
+        const stored = rowToWord(row);
+        const current = updates.get(word.id) || stored;
+        const merged = mergeWord(current, word);
+
+        if (sameWord(merged, word)) {
+            conflicts.delete(word.id);
+        } else {
+            conflicts.set(word.id, {
+                id: word.id,
+                resolution: sameWord(merged, stored) ? 'rejected' : 'merged',
+                word: merged
+            });
+        }
+
+        if (sameWord(merged, stored) && merged.updatedAt === stored.updatedAt) {
+            continue; // Nothing new for the server or other devices
+        }
+        updates.set(word.id, merged);
+    }
+
+    if (inserts.size > 0) {
+        await client.query(
+            `INSERT INTO words (user_id, synced_at, ${WORD_COLUMNS})
+       SELECT $1::uuid, $2::bigint, c.* FROM ${unnestWords(3)}`,
+            [userId, now, ...wordArrays([...inserts.values()])]
+        );
+    }
+
+    if (updates.size > 0) {
+        const assignments = WORD_COLUMNS.split(', ')
+            .filter(column => column !== 'id')
+            .map(column => `${column} = c.${column}`)
+            .join(',\n         ');
+
+        await client.query(
+            `UPDATE words SET
+         ${assignments},
+         synced_at = $1
+       FROM ${unnestWords(2)}
+       WHERE words.id = c.id`,
+            [now, ...wordArrays([...updates.values()])]
+        );
+    }
+
+    return { conflicts: [...conflicts.values()], rejected: [...rejected] };
+};
+
+// Review events are immutable, so replays of an already stored event are ignored
+const appendReviews = async (client: PoolClient, userId: string, deviceId: string | undefined, reviews: SyncReview[], now: number) => {
+    if (reviews.length === 0) return;
+
+    await client.query(
+        `INSERT INTO reviews (user_id, synced_at, id, word_id, reviewed_at, outcome, previous_score, new_score, interval_ms, device_id)
+       SELECT $1::uuid, $2::bigint, c.* FROM unnest($3::uuid[], $4::uuid[], $5::bigint[], $6::varchar[], $7::int[], $8::int[], $9::bigint[], $10::varchar[])
+         AS c(id, word_id, reviewed_at, outcome, previous_score, new_score, interval_ms, device_id)
+       ON CONFLICT (id) DO NOTHING`,
+        [
+            userId,
+            now,
+            reviews.map(r => r.id),
+            reviews.map(r => r.wordId),
+            reviews.map(r => r.reviewedAt),
+            reviews.map(r => r.outcome),
+            reviews.map(r => r.previousScore),
+            reviews.map(r => r.newScore),
+            reviews.map(r => r.interval),
+            reviews.map(r => r.deviceId || deviceId || 'unknown')
+        ]
+    );
+};
+
+// Serializes a user's pushes with an advisory lock held until the transaction ends and picks
+// their synced_at only then, above everything the user has stored. A push that started
+// earlier but commits later therefore cannot land below a cursor a pull has already handed out.
+const stampChanges = async (client: PoolClient, userId: string): Promise<number> => {
+    await client.query(`SELECT pg_advisory_xact_lock(hashtextextended($1, 0))`, [`sync:${userId}`]);
+    const result = await client.query(
+        `SELECT GREATEST(
+         (SELECT MAX(synced_at) FROM words WHERE user_id = $1),
+         (SELECT MAX(synced_at) FROM reviews WHERE user_id = $1)
+       ) AS latest`,
+        [userId]
+    );
+    return Math.max(Date.now(), (parseInt(result.rows[0].latest) || 0) + 1);
+};
+
+const startPosition = (position?: StreamPosition | null): StreamPosition => position || { syncedAt: 0, id: null };
+
+router.post('/push', authenticateToken, validateBody(PushBody), async (req: Request, res: Response) => {
     const user = (req as any).user;
-    const { lastSyncTimestamp, changes } = req.body as SyncRequest;
+    const { deviceId, changes, reviews = [] } = req.body as PushRequest;
 
-    if (typeof lastSyncTimestamp !== 'number' || !Array.isArray(changes)) {
-        return res.status(400).json({ error: 'Invalid sync request format' });
+    if (changes.length + reviews.length > MAX_PUSH_PAGE) {
+        return sendError(res, 413, 'payload_too_large', `At most ${MAX_PUSH_PAGE} changes per page`, { maxPageSize: MAX_PUSH_PAGE });
     }
 
-    const client = await import('./db').then(m => m.getClient());
+    syncBatchSize.observe({ direction: 'push', kind: 'words' }, changes.length);
+    syncBatchSize.observe({ direction: 'push', kind: 'reviews' }, reviews.length);
+
+    const client = await getClient();
 
     try {
         await client.query('BEGIN');
 
-        const now = Date.now();
-
-        // 1. Apply client changes
-        for (const word of changes) {
-            // Ensure the word belongs to the user or is new
-            // We trust the client's ID if it's a UUID. If it's a new word, client should generate UUID.
-
-            // Default language to 'de' if missing (for backward compatibility)
-            const lang = word.language || 'de';
-
-            if (word.deletedAt) {
-                // Soft delete
-                await client.query(
-                    `INSERT INTO words (id, user_id, original, translation, article, language, score, created_at, last_reviewed_at, next_review_at, updated_at, deleted_at)
-           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
-           ON CONFLICT (id) DO UPDATE SET
-             deleted_at = $12,
-             updated_at = $11`,
-                    [word.id, user.id, word.original, word.translation, word.article, lang, word.score, word.createdAt, word.lastReviewedAt, word.nextReviewAt, now, word.deletedAt]
-                );
-            } else {
-                // Upsert
-                await client.query(
-                    `INSERT INTO words (id, user_id, original, translation, article, language, score, created_at, last_reviewed_at, next_review_at, updated_at, deleted_at)
-           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NULL)
-           ON CONFLICT (id) DO UPDATE SET
-             original = $3,
-             translation = $4,
-             article = $5,
-             language = $6,
-             score = $7,
-             created_at = $8,
-             last_reviewed_at = $9,
-             next_review_at = $10,
-             updated_at = $11,
-             deleted_at = NULL
-             WHERE words.user_id = $2`, // Ensure we only update if it belongs to user
-                    [word.id, user.id, word.original, word.translation, word.article, lang, word.score, word.createdAt, word.lastReviewedAt, word.nextReviewAt, now]
-                );
-            }
+        const now = await stampChanges(client, user.id);
+        const { conflicts, rejected } = await applyWordChanges(client, user.id, changes, now);
+        // Reviews of a rejected word come back with its new ID
+        const rejectedIds = new Set(rejected);
+        await appendReviews(client, user.id, deviceId, reviews.filter(r => !rejectedIds.has(r.wordId)), now);
+
+        await client.query('COMMIT');
+
+        if (changes.length > 0 || reviews.length > 0) {
+            notifyUser(user.id, deviceId, now);
         }
 
-        // 2. Fetch server changes
-        const result = await client.query(
-            `SELECT id, original, translation, article, language, score, created_at, last_reviewed_at, next_review_at, updated_at, deleted_at
+        res.json({ timestamp: now, conflicts, rejected });
+    } catch (error) {
+        await client.query('ROLLBACK');
+        logger.error('Sync push error', { error });
+        sendInternalError(res);
+    } finally {
+        client.release();
+    }
+});
+
+router.post('/pull', authenticateToken, validateBody(PullBody), async (req: Request, res: Response) => {
+    const user = (req as any).user;
+    const { deviceId, cursor, limit } = req.body as PullRequest;
+
+    const pageSize = Math.min(limit || DEFAULT_PULL_PAGE, MAX_PULL_PAGE);
+    const wordsFrom = startPosition(cursor?.words);
+    const reviewsFrom = startPosition(cursor?.reviews);
+
+    try {
+        // Fetch one extra row per stream to know whether another page follows
+        const wordResult = await query(
+            `SELECT synced_at, ${WORD_COLUMNS}
        FROM words
-       WHERE user_id = $1 AND updated_at > $2 AND updated_at <= $3`,
-            [user.id, lastSyncTimestamp, now]
+       WHERE user_id = $1 AND (synced_at > $2 OR (synced_at = $2 AND id > $3))
+       ORDER BY synced_at, id
+       LIMIT $4`,
+            [user.id, wordsFrom.syncedAt, wordsFrom.id || MIN_UUID, pageSize + 1]
         );
 
-        const serverChanges = result.rows.map(row => ({
-            id: row.id,
-            original: row.original,
-            translation: row.translation,
-            article: row.article,
-            language: row.language,
-            score: row.score,
-            createdAt: parseInt(row.created_at),
-            lastReviewedAt: parseInt(row.last_reviewed_at),
-            nextReviewAt: parseInt(row.next_review_at),
-            updatedAt: parseInt(row.updated_at),
-            deletedAt: row.deleted_at ? parseInt(row.deleted_at) : null
-        }));
+        // Review events recorded by the user's other devices
+        const reviewResult = await query(
+            `SELECT synced_at, ${REVIEW_COLUMNS}
+       FROM reviews
+       WHERE user_id = $1 AND (synced_at > $2 OR (synced_at = $2 AND id > $3)) AND device_id <> $4
+       ORDER BY synced_at, id
+       LIMIT $5`,
+            [user.id, reviewsFrom.syncedAt, reviewsFrom.id || MIN_UUID, deviceId || '', pageSize + 1]
+        );
 
-        await client.query('COMMIT');
+        const wordRows = wordResult.rows.slice(0, pageSize);
+        const reviewRows = reviewResult.rows.slice(0, pageSize);
+        const lastWord = wordRows[wordRows.length - 1];
+        const lastReview = reviewRows[reviewRows.length - 1];
+
+        syncBatchSize.observe({ direction: 'pull', kind: 'words' }, wordRows.length);
+        syncBatchSize.observe({ direction: 'pull', kind: 'reviews' }, reviewRows.length);
+
+        const nextCursor: SyncCursor = {
+            words: lastWord ? { syncedAt: parseInt(lastWord.synced_at), id: lastWord.id } : wordsFrom,
+            reviews: lastReview ? { syncedAt: parseInt(lastReview.synced_at), id: lastReview.id } : reviewsFrom
+        };
 
         res.json({
-            timestamp: now,
-            changes: serverChanges
+            changes: wordRows.map(rowToWord),
+            reviews: reviewRows.map(rowToReview),
+            cursor: nextCursor,
+            hasMore: wordResult.rows.length > pageSize || reviewResult.rows.length > pageSize
         });
-
     } catch (error) {
-        await client.query('ROLLBACK');
-        console.error('Sync error:', error);
-        res.status(500).json({ error: 'Internal server error' });
-    } finally {
-        client.release();
+        logger.error('Sync pull error', { error });
+        sendInternalError(res);
     }
 });
 
+router.get('/events', authenticateToken, subscribe);
+
 export default router;
@@ -0,0 +1,195 @@
+import { Router, Request, Response } from 'express';
+import { logger } from './logger';
+import { sendError } from './errors';
+import { validateBody, validateQuery, object, array, string, optional, oneOf } from './validation';
+import { resolveVoice, listVoices, Voice, VoiceError } from './voices';
+import { cacheKey, getOrSynthesize } from './ttsCache';
+import { synthesize, hasCapacity, retryAfter, PoolBusyError, SynthesisTimeoutError } from './piperPool';
+import { AudioFormat, AUDIO_FORMATS, availableFormats, chooseFormat, encode } from './audioFormat';
+
+const router = Router();
+
+const MAX_TEXT_LENGTH = 500;
+const MAX_BULK_TTS_TEXTS = 200;
+
+const language = () => optional(string({ max: 10 }));
+const voiceName = () => optional(string({ max: 64 }));
+const audioFormat = () => optional(oneOf<AudioFormat>('wav', 'opus', 'mp3'));
+
+const TtsQuery = object({
+    text: string({ min: 1, max: MAX_TEXT_LENGTH }),
+    lang: language(),
+    voice: voiceName(),
+    format: audioFormat()
+});
+
+const BulkTtsBody = object({
+    texts: array(string({ min: 1, max: MAX_TEXT_LENGTH }), { max: MAX_BULK_TTS_TEXTS }),
+    lang: language(),
+    voice: voiceName(),
+    format: audioFormat()
+});
+
+// Answers 400 for a language or voice the registry does not have
+const voiceFor = (res: Response, lang?: string, voice?: string) => {
+    try {
+        return resolveVoice(lang, voice);
+    } catch (error) {
+        if (error instanceof VoiceError) {
+            sendError(res, 400, error.code, error.message);
+            return null;
+        }
+        throw error;
+    }
+};
+
+// Pool failures as responses: a full queue is 503, a stuck job 504
+const synthesisFailure = (error: unknown) => {
+    if (error instanceof PoolBusyError) return { status: 503, code: 'tts_busy', message: error.message } as const;
+    if (error instanceof SynthesisTimeoutError) return { status: 504, code: 'tts_timeout', message: error.message } as const;
+    return { status: 500, code: 'tts_failed', message: 'TTS generation failed' } as const;
+};
+
+const sendSynthesisError = (res: Response, error: unknown) => {
+    const { status, code, message } = synthesisFailure(error);
+    if (error instanceof PoolBusyError) {
+        res.setHeader('Retry-After', String(error.retryAfter));
+        return sendError(res, status, code, message, { retryAfter: error.retryAfter });
+    }
+    sendError(res, status, code, message);
+};
+
+router.get('/voices', async (req: Request, res: Response) => {
+    res.json({ languages: listVoices(), formats: [...await availableFormats()] });
+});
+
+// WAV keys leave out the format so they stay compatible with files cached before encoding existed
+const audioKey = (voice: Voice, text: string, format: AudioFormat) =>
+    format === 'wav' ? cacheKey({ model: voice.model, text }) : cacheKey({ model: voice.model, text, format });
+
+// Encoded files are cached next to the WAV they were made from, so another format for the
+// same text does not run Piper again
+const audioFor = (voice: Voice, text: string, format: AudioFormat, owner: string) => {
+    const wav = () => getOrSynthesize(audioKey(voice, text, 'wav'), () => synthesize(text, voice, owner));
+    if (format === 'wav') return wav();
+    return getOrSynthesize(audioKey(voice, text, format), async () => encode((await wav()).audio, format));
+};
+
+// Audio for the same text and voice only changes when the voice's model does, so clients may
+// reuse it for a while and revalidate with the ETag afterwards
+const CACHE_MAX_AGE = 7 * 24 * 60 * 60;
+
+// Lets clients record which voice read a clip, as the request may leave it to the server
+const VOICE_HEADER = 'X-TTS-Voice';
+
+const etagFor = (key: string) => `W/"${key}"`;
+
+// Weak comparison as for If-None-Match. Checked by hand because req.fresh ignores validators
+// on requests with `Cache-Control: no-cache`, which fetch() adds to manual conditional requests.
+const matchesEtag = (req: Request, etag: string) => {
+    const header = req.get('If-None-Match');
+    if (!header) return false;
+    const opaque = (tag: string) => tag.trim().replace(/^W\//, '');
+    return header.split(',').some(tag => tag.trim() === '*' || opaque(tag) === opaque(etag));
+};
+
+router.get('/', validateQuery(TtsQuery), async (req: Request, res: Response) => {
+    const text = req.query.text as string;
+    const voice = voiceFor(res, req.query.lang as string | undefined, req.query.voice as string | undefined);
+    if (!voice) return;
+
+    const format = await chooseFormat(req.query.format as AudioFormat | undefined, types => req.accepts(types));
+    const etag = etagFor(audioKey(voice, text, format));
+    res.setHeader('ETag', etag);
+    res.setHeader('Cache-Control', `public, max-age=${CACHE_MAX_AGE}`);
+    res.setHeader('Content-Language', voice.lang);
+    res.setHeader(VOICE_HEADER, voice.voice);
+    res.setHeader('Vary', 'Accept');
+
+    // The ETag is derived from the request, so a revalidation needs neither Piper nor the disk
+    if (matchesEtag(req, etag)) {
+        res.status(304).end();
+        return;
+    }
+
+    const startTime = Date.now();
+    try {
+        const { audio, cached } = await audioFor(voice, text, format, req.ip || '');
+        logger.info('TTS request', { length: text.length, lang: voice.lang, voice: voice.voice, format, cached, durationMs: Date.now() - startTime });
+
+        res.setHeader('Content-Type', AUDIO_FORMATS[format].mimeType);
+        res.setHeader('X-Cache', cached ? 'HIT' : 'MISS');
+        res.send(audio);
+    } catch (error) {
+        logger.error('TTS failed', { error, durationMs: Date.now() - startTime });
+        res.removeHeader('ETag');
+        res.setHeader('Cache-Control', 'no-store');
+        sendSynthesisError(res, error);
+    }
+});
+
+const NDJSON = 'application/x-ndjson';
+
+interface BulkItem {
+    index: number;
+    text: string;
+    audio: string | null; // Base64, encoded as `format`
+    format: AudioFormat;
+    voice: string;
+    etag?: string;
+    error?: string;
+    code?: string;
+}
+
+// Clients that accept NDJSON get one line per clip as soon as it is ready (in completion order,
+// `index` refers to `texts`), followed by a summary line. Others get all clips in one JSON document.
+router.post('/bulk', validateBody(BulkTtsBody), async (req: Request, res: Response) => {
+    const { texts, lang, voice: voiceName, format: requestedFormat } = req.body as { texts: string[]; lang?: string; voice?: string; format?: AudioFormat };
+    const voice = voiceFor(res, lang, voiceName);
+    if (!voice) return;
+
+    // Accept negotiates the response encoding here, so the audio format can only be asked for explicitly
+    const format = await chooseFormat(requestedFormat || 'wav', () => false);
+
+    // Refuse the whole request rather than failing most of its items
+    if (!hasCapacity(texts.length)) {
+        return sendSynthesisError(res, new PoolBusyError(retryAfter()));
+    }
+
+    const streaming = req.accepts(['json', NDJSON]) === NDJSON;
+    logger.info('TTS bulk request', { items: texts.length, lang: voice.lang, voice: voice.voice, format, streaming });
+
+    if (streaming) {
+        res.setHeader('Content-Type', NDJSON);
+        res.setHeader('Cache-Control', 'no-store');
+        res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx response buffering
+        res.flushHeaders();
+    }
+
+    // All items are queued at once; the pool bounds how many run in parallel
+    const results = await Promise.all(texts.map(async (text, index): Promise<BulkItem> => {
+        let item: BulkItem;
+        try {
+            const { audio } = await audioFor(voice, text, format, req.ip || '');
+            item = { index, text, audio: audio.toString('base64'), format, voice: voice.voice, etag: etagFor(audioKey(voice, text, format)) };
+        } catch (error) {
+            logger.error('TTS bulk item failed', { text, error });
+            const { code, message } = synthesisFailure(error);
+            item = { index, text, audio: null, format, voice: voice.voice, error: message, code };
+        }
+
+        if (streaming && !res.writableEnded) {
+            res.write(JSON.stringify(item) + '\n');
+        }
+        return item;
+    }));
+
+    if (streaming) {
+        const failed = results.filter(item => !item.audio).length;
+        res.end(JSON.stringify({ done: true, count: results.length, failed, format }) + '\n');
+        return;
+    }
+    res.json({ lang: voice.lang, voice: voice.voice, format, results });
+});
+
+export default router;
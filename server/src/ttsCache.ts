@@ -0,0 +1,144 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { logger } from './logger';
+import { counter, gauge } from './metrics';
+
+// Synthesized audio on disk, addressed by a hash of everything that determines it. The least
+// recently used files are evicted once the cache outgrows TTS_CACHE_MAX_BYTES. File mtimes
+// record the last use, so the LRU order survives restarts.
+
+const CACHE_DIR = path.resolve(process.env.TTS_CACHE_DIR || path.join(__dirname, '../tts-cache'));
+const MAX_BYTES = Number(process.env.TTS_CACHE_MAX_BYTES) || 512 * 1024 * 1024;
+
+// Bump to invalidate every cached file, e.g. when the Piper binary changes
+const CACHE_VERSION = 1;
+
+interface Entry {
+    file: string;
+    size: number;
+}
+
+// Map iteration order is insertion order: oldest use first
+const entries = new Map<string, Entry>();
+let totalBytes = 0;
+
+// Concurrent requests for the same audio share one synthesis
+const inFlight = new Map<string, Promise<Buffer>>();
+
+const cacheRequests = counter('tts_cache_requests_total', 'TTS cache lookups by result');
+gauge('tts_cache_bytes', 'Size of the TTS disk cache', () => totalBytes);
+gauge('tts_cache_entries', 'Files in the TTS disk cache', () => entries.size);
+
+export const cacheKey = (parts: { model: string; text: string; [param: string]: unknown }) => {
+    const params = Object.keys(parts).sort().map(key => [key, parts[key]]);
+    return crypto.createHash('sha256').update(JSON.stringify([CACHE_VERSION, params])).digest('hex');
+};
+
+const fileFor = (key: string) => path.join(CACHE_DIR, key.slice(0, 2), key);
+
+const remember = (key: string, entry: Entry) => {
+    const previous = entries.get(key);
+    if (previous) {
+        entries.delete(key);
+        totalBytes -= previous.size;
+    }
+    entries.set(key, entry);
+    totalBytes += entry.size;
+};
+
+const evict = async () => {
+    for (const [key, entry] of entries) {
+        if (totalBytes <= MAX_BYTES) break;
+        entries.delete(key);
+        totalBytes -= entry.size;
+        await fs.promises.rm(entry.file, { force: true });
+    }
+};
+
+// Rebuilds the index from the files left by previous runs
+const scan = async () => {
+    await fs.promises.mkdir(CACHE_DIR, { recursive: true });
+    const found: Array<{ key: string; file: string; size: number; usedAt: number }> = [];
+
+    for (const shard of await fs.promises.readdir(CACHE_DIR)) {
+        const shardDir = path.join(CACHE_DIR, shard);
+        if (!(await fs.promises.stat(shardDir)).isDirectory()) continue;
+
+        for (const name of await fs.promises.readdir(shardDir)) {
+            const file = path.join(shardDir, name);
+            if (name.endsWith('.tmp')) {
+                // Interrupted write
+                await fs.promises.rm(file, { force: true });
+                continue;
+            }
+            const stat = await fs.promises.stat(file);
+            found.push({ key: name, file, size: stat.size, usedAt: stat.mtimeMs });
+        }
+    }
+
+    found.sort((a, b) => a.usedAt - b.usedAt).forEach(({ key, file, size }) => remember(key, { file, size }));
+    await evict();
+    logger.info('TTS cache ready', { dir: CACHE_DIR, entries: entries.size, bytes: totalBytes, maxBytes: MAX_BYTES });
+};
+
+const ready = scan().catch(error => {
+    // Without a usable directory every request synthesizes, which is slow but works
+    logger.error('TTS cache unavailable', { dir: CACHE_DIR, error });
+});
+
+const write = async (key: string, audio: Buffer) => {
+    const file = fileFor(key);
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(tmp, audio);
+    await fs.promises.rename(tmp, file);
+    remember(key, { file, size: audio.length });
+    await evict();
+};
+
+const read = async (key: string) => {
+    const entry = entries.get(key);
+    if (!entry) return null;
+
+    try {
+        const audio = await fs.promises.readFile(entry.file);
+        remember(key, entry);
+        const now = new Date();
+        fs.promises.utimes(entry.file, now, now).catch(() => { });
+        return audio;
+    } catch {
+        // Removed behind our back
+        entries.delete(key);
+        totalBytes -= entry.size;
+        return null;
+    }
+};
+
+// Cached audio for the key, synthesizing and storing it on a miss
+export const getOrSynthesize = async (key: string, synthesize: () => Promise<Buffer>): Promise<{ audio: Buffer; cached: boolean }> => {
+    await ready;
+
+    const cachedAudio = await read(key);
+    if (cachedAudio) {
+        cacheRequests.inc({ result: 'hit' });
+        return { audio: cachedAudio, cached: true };
+    }
+
+    let pending = inFlight.get(key);
+    if (pending) {
+        cacheRequests.inc({ result: 'shared' });
+        return { audio: await pending, cached: false };
+    }
+
+    cacheRequests.inc({ result: 'miss' });
+    pending = synthesize();
+    inFlight.set(key, pending);
+    try {
+        const audio = await pending;
+        await write(key, audio).catch(error => logger.warn('Failed to cache TTS audio', { key, error }));
+        return { audio, cached: false };
+    } finally {
+        inFlight.delete(key);
+    }
+};
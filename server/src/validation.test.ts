@@ -0,0 +1,90 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { Issue, Schema, object, array, string, uuid, integer, oneOf, optional, nullable, jsonObject } from './validation';
+
+// Parses `value` at the root path "body" and returns the result with the reported issues
+const parse = <T>(schema: Schema<T>, value: unknown) => {
+    const issues: Issue[] = [];
+    const result = schema.parse(value, 'body', issues);
+    return { result, issues };
+};
+
+const messages = (schema: Schema<any>, value: unknown) => parse(schema, value).issues.map(i => `${i.path} ${i.message}`);
+
+describe('string', () => {
+    test('checks type, length and pattern', () => {
+        assert.deepEqual(messages(string(), 1), ['body must be a string']);
+        assert.deepEqual(messages(string({ min: 1 }), ''), ['body must not be empty']);
+        assert.deepEqual(messages(string({ min: 3 }), 'ab'), ['body must be at least 3 characters']);
+        assert.deepEqual(messages(string({ max: 2 }), 'abc'), ['body must be at most 2 characters']);
+        assert.deepEqual(messages(string({ pattern: /^a+$/ }), 'ab'), ['body has an invalid format']);
+        assert.deepEqual(parse(string({ min: 1, max: 3 }), 'abc'), { result: 'abc', issues: [] });
+    });
+
+    test('uuid accepts UUIDs in either case', () => {
+        assert.deepEqual(messages(uuid(), '0F8FAD5B-D9CB-469F-A165-70867728950E'), []);
+        assert.deepEqual(messages(uuid(), 'not-a-uuid'), ['body has an invalid format']);
+    });
+});
+
+describe('integer', () => {
+    test('rejects fractions, strings and values out of range', () => {
+        assert.deepEqual(messages(integer(), 1.5), ['body must be an integer']);
+        assert.deepEqual(messages(integer(), '1'), ['body must be an integer']);
+        assert.deepEqual(messages(integer({ min: 0, max: 30 }), 31), ['body must be between 0 and 30']);
+        assert.deepEqual(messages(integer({ min: 0, max: 30 }), -1), ['body must be between 0 and 30']);
+        assert.deepEqual(parse(integer({ min: 0, max: 30 }), 30), { result: 30, issues: [] });
+    });
+});
+
+describe('oneOf', () => {
+    test('only accepts the listed values', () => {
+        assert.deepEqual(messages(oneOf('correct', 'incorrect'), 'correct'), []);
+        assert.deepEqual(messages(oneOf('correct', 'incorrect'), 'maybe'), ['body must be one of correct, incorrect']);
+    });
+});
+
+describe('array', () => {
+    test('reports items by index and enforces the maximum length', () => {
+        assert.deepEqual(messages(array(integer()), [1, 'x', 3, 4.5]), ['body[1] must be an integer', 'body[3] must be an integer']);
+        assert.deepEqual(messages(array(integer(), { max: 2 }), [1, 2, 3]), ['body must have at most 2 items']);
+        assert.deepEqual(messages(array(integer()), {}), ['body must be an array']);
+    });
+});
+
+describe('object', () => {
+    const Body = object({
+        name: string({ min: 1 }),
+        count: optional(integer()),
+        parent: nullable(object({ id: uuid() }))
+    });
+
+    test('returns only the known keys', () => {
+        assert.deepEqual(parse(Body, { name: 'a', parent: null }), { result: { name: 'a', parent: null }, issues: [] });
+        assert.deepEqual(
+            parse(Body, { name: 'a', count: 2, parent: { id: '0f8fad5b-d9cb-469f-a165-70867728950e' } }).result,
+            { name: 'a', count: 2, parent: { id: '0f8fad5b-d9cb-469f-a165-70867728950e' } }
+        );
+    });
+
+    test('rejects unknown and missing keys', () => {
+        assert.deepEqual(messages(Body, { extra: true, parent: null }), ['body.extra is not allowed', 'body.name is required']);
+    });
+
+    test('reports nested paths', () => {
+        assert.deepEqual(messages(Body, { name: '', parent: { id: 'x' } }), ['body.name must not be empty', 'body.parent.id has an invalid format']);
+    });
+
+    test('rejects arrays and null', () => {
+        assert.deepEqual(messages(Body, []), ['body must be an object']);
+        assert.deepEqual(messages(Body, null), ['body must be an object']);
+    });
+});
+
+describe('jsonObject', () => {
+    test('accepts any object but no other values', () => {
+        assert.deepEqual(messages(jsonObject(), { anything: [1, { nested: true }] }), []);
+        assert.deepEqual(messages(jsonObject(), 'text'), ['body must be an object']);
+        assert.deepEqual(messages(jsonObject(), [1]), ['body must be an object']);
+    });
+});
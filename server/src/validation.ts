@@ -0,0 +1,130 @@
+import { Request, Response, NextFunction } from 'express';
+import { sendError } from './errors';
+
+// Small declarative schemas for request bodies. Objects are strict: unknown keys are
+// rejected so malformed or future-format data never reaches the database silently.
+
+export interface Issue {
+    path: string;
+    message: string;
+}
+
+export interface Schema<T> {
+    parse: (value: unknown, path: string, issues: Issue[]) => T;
+    optional: boolean;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<any>>;
+
+type ObjectOf<S extends Shape> =
+    { [K in keyof S as S[K]['optional'] extends true ? never : K]: Infer<S[K]> } &
+    { [K in keyof S as S[K]['optional'] extends true ? K : never]?: Infer<S[K]> };
+
+const define = <T>(parse: Schema<T>['parse']): Schema<T> => ({ parse, optional: false });
+
+const fail = <T>(issues: Issue[], path: string, message: string, value: unknown) => {
+    issues.push({ path, message });
+    return value as T;
+};
+
+export const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const string = ({ min = 0, max = 10_000, pattern }: { min?: number; max?: number; pattern?: RegExp } = {}) =>
+    define<string>((value, path, issues) => {
+        if (typeof value !== 'string') return fail(issues, path, 'must be a string', value);
+        if (value.length < min) return fail(issues, path, min === 1 ? 'must not be empty' : `must be at least ${min} characters`, value);
+        if (value.length > max) return fail(issues, path, `must be at most ${max} characters`, value);
+        if (pattern && !pattern.test(value)) return fail(issues, path, 'has an invalid format', value);
+        return value;
+    });
+
+export const uuid = () => string({ pattern: UUID_PATTERN });
+
+export const integer = ({ min = Number.MIN_SAFE_INTEGER, max = Number.MAX_SAFE_INTEGER }: { min?: number; max?: number } = {}) =>
+    define<number>((value, path, issues) => {
+        if (typeof value !== 'number' || !Number.isInteger(value)) return fail(issues, path, 'must be an integer', value);
+        if (value < min || value > max) return fail(issues, path, `must be between ${min} and ${max}`, value);
+        return value;
+    });
+
+// Milliseconds since the epoch
+export const timestamp = () => integer({ min: 0 });
+
+export const oneOf = <T extends string>(...values: T[]) =>
+    define<T>((value, path, issues) => {
+        if (!values.includes(value as T)) return fail(issues, path, `must be one of ${values.join(', ')}`, value);
+        return value as T;
+    });
+
+export const array = <T>(item: Schema<T>, { max = 10_000 }: { max?: number } = {}) =>
+    define<T[]>((value, path, issues) => {
+        if (!Array.isArray(value)) return fail(issues, path, 'must be an array', value);
+        if (value.length > max) return fail(issues, path, `must have at most ${max} items`, value);
+        return value.map((entry, i) => item.parse(entry, `${path}[${i}]`, issues));
+    });
+
+export const object = <S extends Shape>(shape: S) =>
+    define<ObjectOf<S>>((value, path, issues) => {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) return fail(issues, path, 'must be an object', value);
+
+        const input = value as Record<string, unknown>;
+        const result: Record<string, unknown> = {};
+
+        for (const key of Object.keys(input)) {
+            if (!(key in shape)) issues.push({ path: `${path}.${key}`, message: 'is not allowed' });
+        }
+        for (const [key, schema] of Object.entries(shape)) {
+            if (input[key] === undefined) {
+                if (!schema.optional) issues.push({ path: `${path}.${key}`, message: 'is required' });
+                continue;
+            }
+            result[key] = schema.parse(input[key], `${path}.${key}`, issues);
+        }
+        return result as ObjectOf<S>;
+    });
+
+// Any JSON object, for documents the server stores without interpreting
+export const jsonObject = () =>
+    define<Record<string, unknown>>((value, path, issues) => {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) return fail(issues, path, 'must be an object', value);
+        return value as Record<string, unknown>;
+    });
+
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> & { optional: true } => ({ ...schema, optional: true });
+
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> =>
+    define<T | null>((value, path, issues) => value === null ? null : schema.parse(value, path, issues));
+
+const MAX_REPORTED_ISSUES = 20;
+
+const rejectIssues = (res: Response, issues: Issue[]) =>
+    sendError(res, 400, 'invalid_request', `Invalid request: ${issues[0].path} ${issues[0].message}`, {
+        issues: issues.slice(0, MAX_REPORTED_ISSUES)
+    });
+
+// Replaces req.body with the parsed value or answers 400 with the list of problems
+export const validateBody = (schema: Schema<any>) => (req: Request, res: Response, next: NextFunction) => {
+    const issues: Issue[] = [];
+    const value = schema.parse(req.body ?? {}, 'body', issues);
+
+    if (issues.length > 0) {
+        return rejectIssues(res, issues);
+    }
+
+    req.body = value;
+    next();
+};
+
+// Query values are strings (or arrays for repeated keys), so only string schemas fit here.
+// req.query is read-only in Express 5 and is left as it is.
+export const validateQuery = (schema: Schema<any>) => (req: Request, res: Response, next: NextFunction) => {
+    const issues: Issue[] = [];
+    schema.parse(req.query, 'query', issues);
+
+    if (issues.length > 0) {
+        return rejectIssues(res, issues);
+    }
+    next();
+};
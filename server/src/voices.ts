@@ -0,0 +1,103 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from './logger';
+
+// Piper voices per language. Each language has a default voice and optionally alternates that
+// clients can ask for by name. Models are <PIPER_MODEL_DIR>/<model>.onnx next to their .onnx.json.
+// TTS_VOICES can point at a JSON file with the same shape to replace the built-in registry.
+
+export interface LanguageVoices {
+    default: string;
+    voices: Record<string, string>; // voice name -> model name
+}
+
+export interface Voice {
+    lang: string;
+    voice: string;
+    model: string;
+    modelPath: string;
+}
+
+export const PIPER_PATH = path.resolve(process.env.PIPER_PATH || '/app/piper/piper');
+const MODEL_DIR = path.resolve(process.env.PIPER_MODEL_DIR || '/app/piper-model');
+
+// Requests without a language come from apps that only knew German
+export const DEFAULT_LANGUAGE = 'de';
+
+const BUILT_IN_VOICES: Record<string, LanguageVoices> = {
+    de: { default: 'thorsten', voices: { thorsten: 'de_DE-thorsten-high', kerstin: 'de_DE-kerstin-low' } },
+    es: { default: 'davefx', voices: { davefx: 'es_ES-davefx-medium', sharvard: 'es_ES-sharvard-medium' } },
+    fr: { default: 'siwis', voices: { siwis: 'fr_FR-siwis-medium', upmc: 'fr_FR-upmc-medium' } },
+    it: { default: 'riccardo', voices: { riccardo: 'it_IT-riccardo-x_low', paola: 'it_IT-paola-medium' } }
+};
+
+const loadRegistry = (): Record<string, LanguageVoices> => {
+    const file = process.env.TTS_VOICES;
+    if (!file) return BUILT_IN_VOICES;
+
+    const registry = JSON.parse(fs.readFileSync(file, 'utf8')) as Record<string, LanguageVoices>;
+    for (const [lang, entry] of Object.entries(registry)) {
+        if (!entry.voices?.[entry.default]) {
+            throw new Error(`TTS_VOICES: default voice "${entry.default}" of "${lang}" is not in its voices`);
+        }
+    }
+    logger.info('Loaded TTS voice registry', { file, languages: Object.keys(registry) });
+    return registry;
+};
+
+const registry = loadRegistry();
+
+export type VoiceErrorCode = 'unsupported_language' | 'unknown_voice';
+
+export class VoiceError extends Error {
+    constructor(public code: VoiceErrorCode, message: string) {
+        super(message);
+    }
+}
+
+const toVoice = (lang: string, voice: string, model: string): Voice => ({
+    lang,
+    voice,
+    model,
+    modelPath: path.join(MODEL_DIR, `${model}.onnx`)
+});
+
+// Lookup of client-supplied keys that ignores inherited properties such as "constructor"
+const own = <T>(record: Record<string, T>, key: string): T | undefined =>
+    Object.prototype.hasOwnProperty.call(record, key) ? record[key] : undefined;
+
+// Picks the voice for a request. An unknown language is an error rather than a silent fallback,
+// because reading Spanish with a German voice is what this registry exists to prevent.
+export const resolveVoice = (lang: string = DEFAULT_LANGUAGE, voice?: string): Voice => {
+    const entry = own(registry, lang);
+    if (!entry) {
+        throw new VoiceError('unsupported_language', `No voice for language "${lang}"`);
+    }
+
+    const name = voice || entry.default;
+    const model = own(entry.voices, name);
+    if (!model) {
+        throw new VoiceError('unknown_voice', `Unknown voice "${name}" for language "${lang}"`);
+    }
+    return toVoice(lang, name, model);
+};
+
+const isInstalled = (voice: Voice) => fs.existsSync(voice.modelPath);
+
+// Every configured voice and whether its model is installed
+export const listVoices = () =>
+    Object.entries(registry).map(([lang, entry]) => ({
+        lang,
+        default: entry.default,
+        voices: Object.entries(entry.voices).map(([name, model]) => ({
+            name,
+            installed: isInstalled(toVoice(lang, name, model))
+        }))
+    }));
+
+// Default voices whose model file is missing, for the health check
+export const missingDefaultVoices = () =>
+    Object.entries(registry)
+        .map(([lang, entry]) => toVoice(lang, entry.default, entry.voices[entry.default]))
+        .filter(voice => !isInstalled(voice))
+        .map(voice => voice.model);
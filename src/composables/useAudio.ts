@@ -1,13 +1,46 @@
 import { ref } from 'vue';
 import { useWordStore } from '@/stores/wordStore';
+import { NDJSON, readNdjson } from '@/lib/ndjson';
+import { withProtocolHeader } from '@/lib/protocol';
+import { AUDIO_FORMATS, hasCachedAudio, readCachedAudio, writeCachedAudio, removeCachedAudio } from '@/lib/audioCache';
+import type { AudioFormat } from '@/lib/audioCache';
+
+// Smallest format this webview can play. Opus is not supported by every WebKit version.
+const preferredFormat = (): AudioFormat => {
+    const probe = new Audio();
+    if (probe.canPlayType('audio/ogg; codecs="opus"')) return 'opus';
+    if (probe.canPlayType('audio/mpeg')) return 'mp3';
+    return 'wav';
+};
+
+const formatFromMimeType = (mimeType: string | null): AudioFormat =>
+    (Object.keys(AUDIO_FORMATS) as AudioFormat[]).find(format => mimeType?.startsWith(AUDIO_FORMATS[format].mimeType)) || 'wav';
+
+// The server takes at most this many texts per bulk request
+const MAX_BULK_TEXTS = 200;
+
+// One clip of a /tts/bulk response
+interface BulkItem {
+    text: string;
+    audio: string | null; // Base64, encoded as `format`
+    format?: AudioFormat; // Missing from servers that only send WAV
+    voice?: string;
+    error?: string;
+}
+
+// Last line of a streamed /tts/bulk response
+interface BulkSummary {
+    done: true;
+    count: number;
+    failed: number;
+}
 
 export function useAudio() {
     const store = useWordStore();
     const isPlaying = ref(false);
-    const audioCache = new Map<string, string>(); // In-memory cache for blob URLs
+    const format = preferredFormat();
 
-    // Helper to sanitize filenames
-    const getFilename = (text: string) => `audio_${text.replace(/[^a-z0-9äöüß]/gi, '_')}.wav`;
+    const ttsBaseUrl = () => (store.serverUrl || 'http://verteilte.joleif.dev').replace(/\/$/, '');
 
     const playBlob = async (blob: Blob) => {
         const url = URL.createObjectURL(blob);
@@ -33,47 +66,40 @@ export function useAudio() {
         });
     };
 
-    const playAudio = async (text: string) => {
+    // `lang` defaults to the language being learned; pass the word's own language when known
+    const playAudio = async (text: string, lang: string = store.currentLanguage) => {
         if (!text || isPlaying.value) return;
 
         try {
-            // 1. Check local file system (Tauri only)
+            // 1. Check the local audio cache (Tauri only)
             try {
-                const { BaseDirectory, exists, readFile } = await import('@tauri-apps/plugin-fs');
-                const filename = getFilename(text);
-
-                if (await exists(filename, { baseDir: BaseDirectory.AppData })) {
-                    console.log(`[Audio] Playing from file system: ${filename}`);
-                    const data = await readFile(filename, { baseDir: BaseDirectory.AppData });
-                    const blob = new Blob([data], { type: 'audio/wav' });
-                    await playBlob(blob);
+                const cached = await readCachedAudio(text, lang);
+                if (cached) {
+                    console.debug(`[Audio] Playing from cache: ${text} (${lang})`);
+                    await playBlob(new Blob([cached.data], { type: cached.mimeType }));
                     return;
                 }
             } catch (e) {
-                // Ignore FS errors (e.g. not in Tauri or permission issues)
-                console.debug('[Audio] FS check failed, falling back to network', e);
+                console.debug('[Audio] Cache read failed, falling back to network', e);
             }
 
             // 2. Fetch from server
-            console.log(`[Audio] Fetching from server: ${text}`);
-            const baseUrl = store.serverUrl || 'http://verteilte.joleif.dev';
-            const cleanBase = baseUrl.replace(/\/$/, '');
-            const fetchUrl = `${cleanBase}/tts?text=${encodeURIComponent(text)}`;
+            console.debug(`[Audio] Fetching from server: ${text} (${lang})`);
+            const fetchUrl = `${ttsBaseUrl()}/tts?text=${encodeURIComponent(text)}&lang=${encodeURIComponent(lang)}&format=${format}`;
 
-            const response = await fetch(fetchUrl);
+            const response = await fetch(fetchUrl, { headers: withProtocolHeader() });
             if (!response.ok) throw new Error('TTS fetch failed');
 
             const blob = await response.blob();
 
-            // 3. Save to file system (Tauri only)
+            // 3. Save to the audio cache. Servers without an encoder answer with WAV.
             try {
-                const { BaseDirectory, writeFile } = await import('@tauri-apps/plugin-fs');
-                const filename = getFilename(text);
-                const buffer = await blob.arrayBuffer();
-                await writeFile(filename, new Uint8Array(buffer), { baseDir: BaseDirectory.AppData });
-                console.log(`[Audio] Saved to file system: ${filename}`);
+                await writeCachedAudio(text, lang, new Uint8Array(await blob.arrayBuffer()), {
+                    format: formatFromMimeType(response.headers.get('Content-Type')),
+                    voice: response.headers.get('X-TTS-Voice')
+                });
             } catch (e) {
-                console.debug('[Audio] Failed to save to FS', e);
+                console.debug('[Audio] Failed to cache audio', e);
             }
 
             await playBlob(blob);
@@ -84,109 +110,123 @@ export function useAudio() {
         }
     };
 
-    const inFlightPrefetches = new Set<string>();
-
-    const prefetchAudio = async (texts: string[]) => {
-        if (texts.length === 0) return;
+    // Fetches the texts through the bulk endpoint and caches each clip as it arrives.
+    // Returns how many clips were saved.
+    const fetchBulk = async (texts: string[], lang: string, onItem?: () => void) => {
+        const response = await fetch(`${ttsBaseUrl()}/tts/bulk`, {
+            method: 'POST',
+            headers: withProtocolHeader({ 'Content-Type': 'application/json', 'Accept': `${NDJSON}, application/json;q=0.9` }),
+            body: JSON.stringify({ texts, lang, format })
+        });
 
-        // Filter out texts we are already fetching
-        const uniqueTexts = texts.filter(t => !inFlightPrefetches.has(t));
-        if (uniqueTexts.length === 0) return;
+        if (!response.ok) throw new Error('Bulk TTS fetch failed');
 
-        // Mark as in-flight
-        uniqueTexts.forEach(t => inFlightPrefetches.add(t));
-
-        // Run in background with a small delay to let UI render
-        setTimeout(async () => {
-            try {
-                // Filter out texts we already have on disk
-                const neededTexts: string[] = [];
+        // Streaming servers send each clip as soon as it is ready, so the next card's audio
+        // is saved before the rest of the batch is done. Older servers send one document.
+        const items: AsyncIterable<BulkItem | BulkSummary> | BulkItem[] = response.headers.get('Content-Type')?.includes(NDJSON)
+            ? readNdjson<BulkItem | BulkSummary>(response)
+            : (await response.json()).results;
 
+        let saved = 0;
+        for await (const item of items) {
+            if ('done' in item) {
+                if (item.failed > 0) console.warn(`[Audio] ${item.failed} of ${item.count} bulk items failed`);
+                continue;
+            }
+            if (item.audio) {
                 try {
-                    const { BaseDirectory, exists } = await import('@tauri-apps/plugin-fs');
-
-                    for (const text of uniqueTexts) {
-                        // Yield to UI thread occasionally
-                        await new Promise(r => setTimeout(r, 0));
-
-                        const filename = getFilename(text);
-                        try {
-                            if (!(await exists(filename, { baseDir: BaseDirectory.AppData }))) {
-                                neededTexts.push(text);
-                            }
-                        } catch (e) {
-                            // If exists fails, assume we need it (or skip to be safe? let's skip to avoid errors loop)
-                            console.debug(`[Audio] FS check failed for ${text}`, e);
-                        }
+                    // Convert base64 to Uint8Array
+                    const binaryString = atob(item.audio);
+                    const bytes = new Uint8Array(binaryString.length);
+                    for (let i = 0; i < binaryString.length; i++) {
+                        bytes[i] = binaryString.charCodeAt(i);
                     }
+
+                    if (await writeCachedAudio(item.text, lang, bytes, { format: item.format || 'wav', voice: item.voice })) saved++;
                 } catch (e) {
-                    // If FS check fails globally, assume we need all
-                    neededTexts.push(...uniqueTexts);
+                    console.error(`[Audio] Failed to save bulk item ${item.text}`, e);
                 }
+            } else if (item.error) {
+                console.debug(`[Audio] Bulk item failed: ${item.text} (${item.error})`);
+            }
+            onItem?.();
+            // Yield again
+            await new Promise(r => setTimeout(r, 0));
+        }
+        return saved;
+    };
 
-                if (neededTexts.length === 0) {
-                    uniqueTexts.forEach(t => inFlightPrefetches.delete(t));
-                    return;
-                }
+    // Texts of the list that are not in the audio cache yet
+    const uncachedTexts = async (texts: string[], lang: string) => {
+        const needed: string[] = [];
+        for (const text of texts) {
+            if (!(await hasCachedAudio(text, lang))) needed.push(text);
+        }
+        return needed;
+    };
 
-                console.log(`[Audio] Bulk prefetching ${neededTexts.length} items`);
+    const inFlightPrefetches = new Set<string>();
 
-                const baseUrl = store.serverUrl || 'http://verteilte.joleif.dev';
-                const cleanBase = baseUrl.replace(/\/$/, '');
+    // All texts are read in one language, the bulk endpoint uses one voice per request
+    const prefetchAudio = async (texts: string[], lang: string = store.currentLanguage) => {
+        if (texts.length === 0) return;
 
-                const response = await fetch(`${cleanBase}/tts/bulk`, {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({ texts: neededTexts })
-                });
+        // Filter out texts we are already fetching
+        const key = (text: string) => `${lang}:${text}`;
+        const uniqueTexts = texts.filter(t => !inFlightPrefetches.has(key(t)));
+        if (uniqueTexts.length === 0) return;
 
-                if (!response.ok) throw new Error('Bulk TTS fetch failed');
-
-                const data = await response.json();
-                const results = data.results as { text: string, audio: string | null }[];
-
-                const { BaseDirectory, writeFile } = await import('@tauri-apps/plugin-fs');
-
-                for (const result of results) {
-                    if (result.audio) {
-                        try {
-                            const filename = getFilename(result.text);
-                            // Convert base64 to Uint8Array
-                            const binaryString = atob(result.audio);
-                            const bytes = new Uint8Array(binaryString.length);
-                            for (let i = 0; i < binaryString.length; i++) {
-                                bytes[i] = binaryString.charCodeAt(i);
-                            }
-
-                            await writeFile(filename, bytes, { baseDir: BaseDirectory.AppData });
-                            console.log(`[Audio] Bulk saved: ${filename}`);
-                        } catch (e) {
-                            console.error(`[Audio] Failed to save bulk item ${result.text}`, e);
-                        }
-                    }
-                    // Yield again
-                    await new Promise(r => setTimeout(r, 0));
-                }
+        // Mark as in-flight
+        uniqueTexts.forEach(t => inFlightPrefetches.add(key(t)));
+
+        // Run in background with a small delay to let UI render
+        setTimeout(async () => {
+            try {
+                const neededTexts = await uncachedTexts(uniqueTexts, lang);
+                if (neededTexts.length === 0) return;
 
+                console.debug(`[Audio] Bulk prefetching ${neededTexts.length} items (${lang})`);
+                await fetchBulk(neededTexts, lang);
             } catch (e) {
                 console.error('[Audio] Bulk prefetch failed:', e);
             } finally {
-                uniqueTexts.forEach(t => inFlightPrefetches.delete(t));
+                uniqueTexts.forEach(t => inFlightPrefetches.delete(key(t)));
             }
         }, 100);
     };
 
-    const deleteAudio = async (text: string) => {
-        try {
-            const { BaseDirectory, remove, exists } = await import('@tauri-apps/plugin-fs');
-            const filename = getFilename(text);
+    // Downloads every missing clip, one bulk request per language and chunk. `onProgress`
+    // gets the number of texts handled so far and the number that were missing.
+    const downloadAllAudio = async (items: { text: string; lang: string }[], onProgress?: (done: number, total: number) => void) => {
+        const byLanguage = new Map<string, string[]>();
+        for (const { text, lang } of items) {
+            if (!text) continue;
+            const texts = byLanguage.get(lang) || [];
+            if (!texts.includes(text)) texts.push(text);
+            byLanguage.set(lang, texts);
+        }
+
+        const missing = new Map<string, string[]>();
+        for (const [lang, texts] of byLanguage) missing.set(lang, await uncachedTexts(texts, lang));
+
+        const total = [...missing.values()].reduce((sum, texts) => sum + texts.length, 0);
+        let done = 0;
+        let saved = 0;
+        onProgress?.(done, total);
 
-            if (await exists(filename, { baseDir: BaseDirectory.AppData })) {
-                await remove(filename, { baseDir: BaseDirectory.AppData });
-                console.log(`[Audio] Deleted from file system: ${filename}`);
-                return true;
+        for (const [lang, texts] of missing) {
+            for (let i = 0; i < texts.length; i += MAX_BULK_TEXTS) {
+                saved += await fetchBulk(texts.slice(i, i + MAX_BULK_TEXTS), lang, () => onProgress?.(++done, total));
             }
-            return false;
+        }
+        return { total, saved };
+    };
+
+    const deleteAudio = async (text: string, lang: string = store.currentLanguage) => {
+        try {
+            const deleted = await removeCachedAudio(text, lang);
+            if (deleted) console.debug(`[Audio] Deleted from cache: ${text} (${lang})`);
+            return deleted;
         } catch (e) {
             console.error(`[Audio] Failed to delete audio for "${text}":`, e);
             return false;
@@ -197,6 +237,7 @@ export function useAudio() {
         isPlaying,
         playAudio,
         prefetchAudio,
+        downloadAllAudio,
         deleteAudio
     };
 }
@@ -0,0 +1,234 @@
+import { ref, watch } from 'vue';
+import { useStorage } from '@vueuse/core';
+
+// TTS clips stored in AppData (Tauri only). Files are named by a hash of the language and text,
+// so phrases that only differ in punctuation or case no longer share a file. An index of all
+// clips is kept in `audio-cache.json`, and the least recently played clips are removed once the
+// cache outgrows its size limit. Outside Tauri every call is a no-op and audio comes from the network.
+
+export type AudioFormat = 'wav' | 'opus' | 'mp3';
+
+// The extension of a cached file records its format
+export const AUDIO_FORMATS: Record<AudioFormat, { extension: string; mimeType: string }> = {
+  opus: { extension: 'ogg', mimeType: 'audio/ogg' },
+  mp3: { extension: 'mp3', mimeType: 'audio/mpeg' },
+  wav: { extension: 'wav', mimeType: 'audio/wav' }
+};
+
+export interface AudioCacheEntry {
+  key: string;
+  text: string;
+  lang: string;
+  voice: string | null; // As reported by the server, null for servers that do not say
+  format: AudioFormat;
+  size: number;
+  createdAt: number;
+  lastPlayedAt: number;
+}
+
+const INDEX_FILE = 'audio-cache.json';
+const INDEX_VERSION = 1;
+const SAVE_DELAY = 1000;
+
+export const DEFAULT_AUDIO_CACHE_MAX_BYTES = 100 * 1024 * 1024;
+
+export const audioCacheMaxBytes = useStorage('settings_audioCacheMaxBytes', DEFAULT_AUDIO_CACHE_MAX_BYTES);
+export const audioCacheUsage = ref({ bytes: 0, entries: 0 });
+
+let entries: Map<string, AudioCacheEntry> | null = null;
+let loading: Promise<Map<string, AudioCacheEntry> | null> | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+function isTauri(): boolean {
+  return typeof window !== 'undefined' && '__TAURI_INTERNALS__' in window;
+}
+
+const fs = () => import('@tauri-apps/plugin-fs');
+
+function fileFor(entry: Pick<AudioCacheEntry, 'key' | 'format'>): string {
+  return `audio-${entry.key}.${AUDIO_FORMATS[entry.format].extension}`;
+}
+
+async function cacheKey(text: string, lang: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify([lang, text])));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function updateUsage() {
+  let bytes = 0;
+  entries?.forEach(entry => bytes += entry.size);
+  audioCacheUsage.value = { bytes, entries: entries?.size || 0 };
+}
+
+// Files from before the index were named after the text, which could collide, so they are dropped
+async function removeUnindexedFiles() {
+  const { BaseDirectory, readDir, remove } = await fs();
+  for (const file of await readDir('', { baseDir: BaseDirectory.AppData })) {
+    if (file.isFile && /^audio_.*\.(wav|ogg|mp3)$/.test(file.name)) {
+      await remove(file.name, { baseDir: BaseDirectory.AppData }).catch(() => { });
+    }
+  }
+}
+
+async function readIndex(): Promise<Map<string, AudioCacheEntry> | null> {
+  if (!isTauri()) return null;
+
+  const { BaseDirectory, exists, readTextFile } = await fs();
+  const index = new Map<string, AudioCacheEntry>();
+
+  if (await exists(INDEX_FILE, { baseDir: BaseDirectory.AppData })) {
+    try {
+      const stored = JSON.parse(await readTextFile(INDEX_FILE, { baseDir: BaseDirectory.AppData }));
+      if (stored.version === INDEX_VERSION) {
+        for (const entry of stored.entries as AudioCacheEntry[]) index.set(entry.key, entry);
+      }
+    } catch (e) {
+      console.warn('[AudioCache] Index unreadable, starting empty', e);
+    }
+  } else {
+    await removeUnindexedFiles().catch(e => console.debug('[AudioCache] Failed to remove old audio files', e));
+  }
+
+  return index;
+}
+
+async function load(): Promise<Map<string, AudioCacheEntry> | null> {
+  if (entries) return entries;
+  if (!loading) {
+    loading = readIndex()
+      .then(index => {
+        entries = index;
+        updateUsage();
+        return index;
+      })
+      .catch(e => {
+        console.debug('[AudioCache] Unavailable', e);
+        return null;
+      });
+  }
+  return loading;
+}
+
+// Batches index writes, playback updates `lastPlayedAt` on every clip
+function scheduleSave() {
+  if (saveTimer) clearTimeout(saveTimer);
+  saveTimer = setTimeout(async () => {
+    saveTimer = null;
+    if (!entries) return;
+    try {
+      const { BaseDirectory, writeTextFile } = await fs();
+      const data = JSON.stringify({ version: INDEX_VERSION, entries: [...entries.values()] });
+      await writeTextFile(INDEX_FILE, data, { baseDir: BaseDirectory.AppData });
+    } catch (e) {
+      console.error('[AudioCache] Failed to save index', e);
+    }
+  }, SAVE_DELAY);
+}
+
+async function removeEntry(entry: AudioCacheEntry) {
+  entries?.delete(entry.key);
+  const { BaseDirectory, remove } = await fs();
+  await remove(fileFor(entry), { baseDir: BaseDirectory.AppData }).catch(() => { });
+}
+
+// Removes the least recently played clips until the cache fits its limit again
+async function evict(keep?: string) {
+  if (!entries) return;
+  let bytes = 0;
+  entries.forEach(entry => bytes += entry.size);
+  if (bytes <= audioCacheMaxBytes.value) return;
+
+  const oldestFirst = [...entries.values()].sort((a, b) => a.lastPlayedAt - b.lastPlayedAt);
+  for (const entry of oldestFirst) {
+    if (bytes <= audioCacheMaxBytes.value) break;
+    if (entry.key === keep) continue;
+    await removeEntry(entry);
+    bytes -= entry.size;
+  }
+  updateUsage();
+  scheduleSave();
+}
+
+watch(audioCacheMaxBytes, () => evict());
+
+// Loads the index so `audioCacheUsage` is filled in. False when there is no cache (outside Tauri).
+export async function loadAudioCache(): Promise<boolean> {
+  return !!(await load());
+}
+
+export async function hasCachedAudio(text: string, lang: string): Promise<boolean> {
+  const index = await load();
+  return !!index?.has(await cacheKey(text, lang));
+}
+
+// The clip's bytes, marked as played. Null when it is not cached.
+export async function readCachedAudio(text: string, lang: string): Promise<{ data: Uint8Array; mimeType: string } | null> {
+  const index = await load();
+  if (!index) return null;
+
+  const entry = index.get(await cacheKey(text, lang));
+  if (!entry) return null;
+
+  try {
+    const { BaseDirectory, readFile } = await fs();
+    const data = await readFile(fileFor(entry), { baseDir: BaseDirectory.AppData });
+    entry.lastPlayedAt = Date.now();
+    scheduleSave();
+    return { data, mimeType: AUDIO_FORMATS[entry.format].mimeType };
+  } catch (e) {
+    // Removed behind our back
+    console.debug(`[AudioCache] Missing file for "${text}"`, e);
+    index.delete(entry.key);
+    updateUsage();
+    scheduleSave();
+    return null;
+  }
+}
+
+export async function writeCachedAudio(text: string, lang: string, data: Uint8Array, options: { format: AudioFormat; voice?: string | null }): Promise<boolean> {
+  const index = await load();
+  if (!index) return false;
+
+  const key = await cacheKey(text, lang);
+  const previous = index.get(key);
+  const { BaseDirectory, writeFile } = await fs();
+
+  const entry: AudioCacheEntry = {
+    key,
+    text,
+    lang,
+    voice: options.voice || null,
+    format: options.format,
+    size: data.length,
+    createdAt: Date.now(),
+    lastPlayedAt: previous?.lastPlayedAt || Date.now()
+  };
+  await writeFile(fileFor(entry), data, { baseDir: BaseDirectory.AppData });
+  if (previous && previous.format !== entry.format) await removeEntry(previous);
+
+  index.set(key, entry);
+  updateUsage();
+  scheduleSave();
+  await evict(key);
+  return true;
+}
+
+export async function removeCachedAudio(text: string, lang: string): Promise<boolean> {
+  const index = await load();
+  const entry = index?.get(await cacheKey(text, lang));
+  if (!entry) return false;
+
+  await removeEntry(entry);
+  updateUsage();
+  scheduleSave();
+  return true;
+}
+
+export async function clearAudioCache(): Promise<void> {
+  const index = await load();
+  if (!index) return;
+
+  for (const entry of [...index.values()]) await removeEntry(entry);
+  updateUsage();
+  scheduleSave();
+}
@@ -0,0 +1,206 @@
+import pako from 'pako';
+import initSqlJs, { type Database as SqlJsDatabase, type SqlJsStatic, type SqlValue } from 'sql.js';
+import sqlWasmUrl from 'sql.js/dist/sql-wasm.wasm?url';
+import type Database from '@tauri-apps/plugin-sql';
+import { sha256Hex } from '@/lib/dictionary';
+import type { ExpectedFile } from '@/lib/download';
+
+// Dictionary backend of the browser build. The same <lang>.db.gz the app downloads is fetched,
+// verified against the manifest, unpacked and kept as `dictionary_<lang>.db` in the Origin
+// Private File System, or in IndexedDB where OPFS is missing. Databases are opened in memory
+// with sql.js, which has no FTS5, so meaning searches use the LIKE fallback here.
+
+// The part of the Tauri SQL plugin's Database the dictionary uses
+export type DictionaryDatabase = Pick<Database, 'select' | 'close'>;
+
+const IDB_NAME = 'verteilte-dictionaries';
+const IDB_STORE = 'files';
+
+const dbFile = (lang: string) => `dictionary_${lang}.db`;
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+const loadSqlJs = () => {
+  if (!sqlJs) {
+    sqlJs = initSqlJs({ locateFile: () => sqlWasmUrl });
+    sqlJs.catch(() => sqlJs = null);
+  }
+  return sqlJs;
+};
+
+// OPFS is only used where files can be written from this thread. Safari hands out an OPFS
+// root on the main thread but has no createWritable there, so it gets IndexedDB.
+async function opfsRoot(): Promise<FileSystemDirectoryHandle | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.getDirectory) return null;
+  if (typeof FileSystemFileHandle === 'undefined' || !('createWritable' in FileSystemFileHandle.prototype)) return null;
+  try {
+    return await navigator.storage.getDirectory();
+  } catch (e) {
+    // E.g. private windows in some browsers
+    console.debug('[BrowserDictionary] OPFS unavailable, using IndexedDB', e);
+    return null;
+  }
+}
+
+function openIdb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(IDB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(IDB_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function idbRequest<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const idb = await openIdb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(idb.transaction(IDB_STORE, mode).objectStore(IDB_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    idb.close();
+  }
+}
+
+async function readOpfsFile(root: FileSystemDirectoryHandle, name: string): Promise<Uint8Array | null> {
+  try {
+    const file = await (await root.getFileHandle(name)).getFile();
+    return new Uint8Array(await file.arrayBuffer());
+  } catch (e) {
+    if ((e as DOMException)?.name === 'NotFoundError') return null;
+    throw e;
+  }
+}
+
+// Reads look in IndexedDB as well, so a file lands there when writing it to OPFS fails
+async function readFile(name: string): Promise<Uint8Array | null> {
+  const root = await opfsRoot();
+  if (root) {
+    const data = await readOpfsFile(root, name);
+    if (data) return data;
+  }
+  const data = await idbRequest<Uint8Array | undefined>('readonly', store => store.get(name));
+  return data || null;
+}
+
+async function writeFile(name: string, data: Uint8Array): Promise<void> {
+  const root = await opfsRoot();
+  if (root) {
+    try {
+      const writable = await (await root.getFileHandle(name, { create: true })).createWritable();
+      await writable.write(data);
+      await writable.close();
+      // Drop a copy an earlier failed OPFS write left in IndexedDB
+      await idbRequest('readwrite', store => store.delete(name)).catch(() => { });
+      return;
+    } catch (e) {
+      console.debug('[BrowserDictionary] OPFS write failed, using IndexedDB', e);
+      await root.removeEntry(name).catch(() => { });
+    }
+  }
+  await idbRequest('readwrite', store => store.put(data, name));
+}
+
+const hasOpfsFile = async (root: FileSystemDirectoryHandle | null, name: string) =>
+  !!root && !!(await root.getFileHandle(name).catch(() => null));
+
+// Where `name` is stored, as readFile would find it
+const storageKind = async (name: string) => (await hasOpfsFile(await opfsRoot(), name)) ? 'opfs' : 'indexeddb';
+
+// Runs queries written for the Tauri SQL plugin. `$1` style placeholders become `?1`, which
+// SQLite binds by number; named `$1` parameters would be numbered in order of appearance.
+function wrap(database: SqlJsDatabase): DictionaryDatabase {
+  let open = true;
+  return {
+    async select<T>(query: string, bindValues: unknown[] = []): Promise<T> {
+      if (!open) throw new Error('Dictionary database is closed');
+      const statement = database.prepare(query.replace(/\$(\d+)/g, '?$1'));
+      try {
+        statement.bind(bindValues as SqlValue[]);
+        const rows: Record<string, SqlValue>[] = [];
+        while (statement.step()) rows.push(statement.getAsObject());
+        return rows as T;
+      } finally {
+        statement.free();
+      }
+    },
+    async close() {
+      if (open) database.close();
+      open = false;
+      return true;
+    }
+  };
+}
+
+export async function hasBrowserDictionary(lang: string): Promise<boolean> {
+  try {
+    if (await hasOpfsFile(await opfsRoot(), dbFile(lang))) return true;
+    return (await idbRequest('readonly', store => store.count(dbFile(lang)))) > 0;
+  } catch (e) {
+    console.debug(`[BrowserDictionary] Failed to check dictionary ${lang}`, e);
+    return false;
+  }
+}
+
+// The stored dictionary, opened in memory. Null when none has been downloaded.
+export async function openBrowserDictionary(lang: string): Promise<{ database: DictionaryDatabase; path: string; version: string } | null> {
+  const data = await readFile(dbFile(lang));
+  if (!data) return null;
+
+  const SQL = await loadSqlJs();
+  const database = wrap(new SQL.Database(data));
+  const rows = await database.select<Array<{ value: string }>>(`SELECT value FROM metadata WHERE key = 'version'`)
+    .catch(() => [] as Array<{ value: string }>);
+  return { database, path: `${await storageKind(dbFile(lang))}:${dbFile(lang)}`, version: rows[0]?.value || '' };
+}
+
+// Downloads, verifies and stores the dictionary archive at `url`. Browsers cannot append to
+// stored files cheaply, so an aborted download starts over next time. The stored dictionary
+// is only replaced once the new one is complete and checks out.
+export async function downloadBrowserDictionary(
+  url: string,
+  lang: string,
+  options: { expected: ExpectedFile | null; signal?: AbortSignal; onProgress?: (received: number, total: number | null) => void }
+): Promise<void> {
+  const { expected, signal, onProgress } = options;
+
+  const response = await fetch(url, { signal });
+  if (!response.ok) throw new Error(`Download failed: ${response.status} ${response.statusText}`);
+
+  const reader = response.body?.getReader();
+  if (!reader) throw new Error('Failed to get reader');
+
+  const total = expected?.size || Number(response.headers.get('Content-Length')) || null;
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  onProgress?.(received, total);
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.length;
+    onProgress?.(received, total);
+  }
+
+  const archive = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    archive.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  if (expected) {
+    if (archive.length !== expected.size) {
+      throw new Error(`Incomplete download (${archive.length} of ${expected.size} bytes)`);
+    }
+    if ((await sha256Hex(archive)) !== expected.sha256) {
+      throw new Error('Checksum mismatch');
+    }
+  }
+
+  // Keeps the browser from evicting the dictionary under storage pressure, where it allows it
+  await navigator.storage?.persist?.().catch(() => false);
+  await writeFile(dbFile(lang), pako.ungzip(archive));
+}
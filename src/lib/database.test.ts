@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from 'vitest';
+import { acknowledgeOutbox, combineStatements, countOutbox, enqueueWordChanges, getOutboxPage, mergeWord, type Word } from './database';
+
+describe('combineStatements', () => {
+  it('renumbers placeholders into the combined parameter list', () => {
+    expect(combineStatements([
+      { sql: 'DELETE FROM outbox WHERE wordId = $1', values: ['a'] },
+      { sql: 'UPDATE words SET id = $2 WHERE id = $1', values: ['b', 'c'] }
+    ])).toEqual({
+      sql: 'DELETE FROM outbox WHERE wordId = $1;\nUPDATE words SET id = $3 WHERE id = $2',
+      values: ['a', 'b', 'c']
+    });
+  });
+
+  it('renumbers multi-digit placeholders as a whole', () => {
+    const first = { sql: Array.from({ length: 12 }, (_, i) => `$${i + 1}`).join(', '), values: Array(12).fill(0) };
+    const { sql, values } = combineStatements([first, { sql: '$1, $10, $11', values: Array(11).fill(1) }]);
+    expect(sql.split(';\n')[1]).toBe('$13, $22, $23');
+    expect(values).toHaveLength(23);
+  });
+
+  it('keeps statements without placeholders', () => {
+    expect(combineStatements([
+      { sql: 'DELETE FROM outbox', values: [] },
+      { sql: 'DELETE FROM words WHERE id = $1', values: ['a'] }
+    ])).toEqual({ sql: 'DELETE FROM outbox;\nDELETE FROM words WHERE id = $1', values: ['a'] });
+  });
+});
+
+// The merge rules themselves are covered by the server's tests (server/src/sync.test.ts).
+// These cases cover what only the app handles: words stored before contentUpdatedAt or
+// language existed.
+const word = (overrides: Partial<Word>): Word => ({
+  id: 'word',
+  original: 'Haus',
+  translation: 'house',
+  article: 'das',
+  language: 'de',
+  score: 1,
+  createdAt: 100,
+  lastReviewedAt: 200,
+  nextReviewAt: 300,
+  updatedAt: 200,
+  contentUpdatedAt: 100,
+  deletedAt: null,
+  ...overrides
+});
+
+describe('mergeWord', () => {
+  it('falls back to updatedAt for words without contentUpdatedAt', () => {
+    const local = word({ translation: 'home', contentUpdatedAt: 0, updatedAt: 300 });
+    const remote = word({ translation: 'building', contentUpdatedAt: 250 });
+
+    expect(mergeWord(local, remote)).toMatchObject({ translation: 'home', contentUpdatedAt: 300 });
+  });
+
+  it('defaults a missing language to German', () => {
+    expect(mergeWord(word({ language: '' }), word({ language: '' })).language).toBe('de');
+  });
+});
+
+describe('acknowledgeOutbox', () => {
+  it('keeps an edit queued in the same millisecond as the pushed one', async () => {
+    vi.spyOn(Date, 'now').mockReturnValue(1000);
+    try {
+      await enqueueWordChanges(['a', 'b']);
+      const { entries } = await getOutboxPage(10);
+      await enqueueWordChanges(['a']);
+
+      await acknowledgeOutbox(entries);
+      expect((await getOutboxPage(10)).entries.map(e => e.wordId)).toEqual(['a']);
+      expect(await countOutbox()).toBe(1);
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+});
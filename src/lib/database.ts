@@ -1,4 +1,6 @@
 import Database from '@tauri-apps/plugin-sql';
+import { runMigrations, getSchemaStatus } from './migrator';
+import type { SchemaStatus } from './migrator';
 
 export interface Word {
   id: string; // UUID
@@ -11,15 +13,36 @@ export interface Word {
   lastReviewedAt: number;
   nextReviewAt: number;
   updatedAt: number;
+  contentUpdatedAt: number; // Last edit of original/translation/article/language
   deletedAt: number | null;
 }
 
+export type ReviewOutcome = 'correct' | 'incorrect';
+
+// Immutable record of a single answer. Never updated once written.
+export interface ReviewEvent {
+  id: string; // UUID
+  wordId: string;
+  reviewedAt: number;
+  outcome: ReviewOutcome;
+  previousScore: number;
+  newScore: number;
+  interval: number; // ms until the next review that was scheduled by this answer
+  deviceId: string;
+}
+
 let db: Database | null = null;
+let dbLoading: Promise<Database> | null = null;
 let inMemoryWords: Word[] = [];
+let inMemoryReviews: Array<ReviewEvent & { synced: boolean }> = [];
+let inMemoryOutbox: Record<string, Omit<OutboxEntry, 'wordId'>> = {};
 
 const DEFAULT_WORDS: Word[] = [];
 const STORAGE_KEY = 'verteilte_words_db';
+const REVIEWS_STORAGE_KEY = 'verteilte_reviews_db';
+const OUTBOX_STORAGE_KEY = 'verteilte_outbox';
 const SETTINGS_KEY = 'verteilte_settings';
+const DEVICE_ID_KEY = 'verteilte_device_id';
 
 export interface AlgorithmSettings {
   intervals: Record<number, number>; // score -> ms
@@ -51,6 +74,10 @@ export const DEFAULT_ALGORITHM_SETTINGS: AlgorithmSettings = {
 // but I will deprecate its direct usage in favor of `getAlgorithmSettings`.
 export const SCORE_INTERVALS = DEFAULT_ALGORITHM_SETTINGS.intervals;
 
+// Highest score the algorithm settings can add a level for. Must match MAX_SCORE in
+// server/src/sync.ts, which rejects words and reviews with a higher score.
+export const MAX_SCORE_LIMIT = 30;
+
 let inMemorySettings: AlgorithmSettings = { ...DEFAULT_ALGORITHM_SETTINGS };
 
 function saveSettingsToStorage() {
@@ -84,145 +111,118 @@ function generateUUID(): string {
   return crypto.randomUUID();
 }
 
+// Stay below SQLite's historic limit of 999 bound parameters per statement
+const MAX_STATEMENT_PARAMS = 900;
+
+export interface BatchStatement {
+  sql: string; // Placeholders numbered from $1 within the statement
+  values: unknown[];
+}
+
+// Splits rows into chunks that fit into one multi-row statement
+function chunkRows<T>(rows: T[], columnsPerRow: number): T[][] {
+  const size = Math.max(1, Math.floor(MAX_STATEMENT_PARAMS / columnsPerRow));
+  const chunks: T[][] = [];
+  for (let i = 0; i < rows.length; i += size) {
+    chunks.push(rows.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// "($1, $2), ($3, $4)" for a multi-row VALUES clause
+function valuesPlaceholders(rowCount: number, columnsPerRow: number): string {
+  const rows: string[] = [];
+  for (let r = 0; r < rowCount; r++) {
+    const columns = Array.from({ length: columnsPerRow }, (_, c) => `$${r * columnsPerRow + c + 1}`);
+    rows.push(`(${columns.join(', ')})`);
+  }
+  return rows.join(', ');
+}
+
+// Joins statements into one, renumbering the placeholders so they index into the combined
+// parameter list
+export function combineStatements(statements: BatchStatement[]): BatchStatement {
+  const values: unknown[] = [];
+  const sql = statements.map(statement => {
+    const offset = values.length;
+    values.push(...statement.values);
+    return statement.sql.replace(/\$(\d+)/g, (_, n) => `$${Number(n) + offset}`);
+  });
+  return { sql: sql.join(';\n'), values };
+}
+
+// Runs the statements in one transaction and one round trip. The SQL plugin may run each
+// call on a different pooled connection, so BEGIN and COMMIT are sent in the same batch as
+// the statements, as the migrator does, instead of as separate calls.
+async function executeBatch(database: Database, statements: BatchStatement[]): Promise<void> {
+  if (statements.length === 0) return;
+  const { sql, values } = combineStatements(statements);
+  try {
+    await database.execute(`BEGIN;\n${sql};\nCOMMIT`, values);
+  } catch (error) {
+    await database.execute('ROLLBACK').catch(() => { /* No transaction left open */ });
+    throw error;
+  }
+}
+
+// Stable per-install identifier so review events can be attributed to a device
+export function getDeviceId(): string {
+  if (typeof localStorage === 'undefined') return 'unknown';
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = generateUUID();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+}
+
 export async function initDatabase(): Promise<Database | null> {
   if (!isTauri()) {
     if (inMemoryWords.length === 0) {
       loadFromStorage();
     }
+    if (inMemoryReviews.length === 0) {
+      loadReviewsFromStorage();
+    }
+    if (Object.keys(inMemoryOutbox).length === 0) {
+      loadOutboxFromStorage();
+    }
     loadSettingsFromStorage();
     return null;
   }
 
   if (!db) {
-    try {
-      console.log('Attempting to load SQLite database...');
-      db = await Database.load('sqlite:words.db');
+    // Concurrent callers share one load so migrations only run once
+    dbLoading ??= (async () => {
+      try {
+        console.log('Attempting to load SQLite database...');
+        const database = await Database.load('sqlite:words.db');
 
-      // Load settings from local storage even in Tauri mode for now
-      loadSettingsFromStorage();
+        // Load settings from local storage even in Tauri mode for now
+        loadSettingsFromStorage();
 
-      // Migration: Check if table has new schema
-      try {
-        // Check if id is text
-        // This is a simplified check. Ideally we'd check schema version.
-        // For now, we'll try to create the table with new schema if it doesn't exist
-        // If it exists with old schema, we might need to migrate.
-
-        // Let's check if 'updatedAt' column exists
-        const result = await db.select<any[]>('PRAGMA table_info(words)');
-        const hasUpdatedAt = result.some(col => col.name === 'updatedAt');
-
-        if (!hasUpdatedAt) {
-          console.log('Migrating database to new schema...');
-          // Old schema detected. We need to migrate.
-          // 1. Rename old table
-          // 2. Create new table
-          // 3. Copy data
-
-          // Check if words table exists first
-          const tables = await db.select<any[]>("SELECT name FROM sqlite_master WHERE type='table' AND name='words'");
-
-          if (tables.length > 0) {
-            await db.execute('ALTER TABLE words RENAME TO words_old');
-
-            // Create new table
-            await db.execute(`
-                    CREATE TABLE words (
-                        id TEXT PRIMARY KEY,
-                        original TEXT NOT NULL,
-                        translation TEXT NOT NULL,
-                        article TEXT DEFAULT '',
-                        score INTEGER DEFAULT 0,
-                        createdAt INTEGER NOT NULL,
-                        lastReviewedAt INTEGER DEFAULT 0,
-                        nextReviewAt INTEGER NOT NULL,
-                        updatedAt INTEGER NOT NULL,
-                        deletedAt INTEGER DEFAULT NULL
-                    )
-                `);
-
-            // Copy data
-            const oldWords = await db.select<any[]>('SELECT * FROM words_old');
-            const now = Date.now();
-
-            for (const w of oldWords) {
-              await db.execute(
-                'INSERT INTO words (id, original, translation, article, score, createdAt, lastReviewedAt, nextReviewAt, updatedAt, deletedAt) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)',
-                [
-                  generateUUID(),
-                  w.original,
-                  w.translation,
-                  w.article || '',
-                  w.score || 0,
-                  w.createdAt || now,
-                  w.lastReviewedAt || 0,
-                  w.nextReviewAt || now,
-                  now, // updatedAt
-                  null // deletedAt
-                ]
-              );
-            }
-
-            await db.execute('DROP TABLE words_old');
-            console.log('Migration complete.');
-          } else {
-            // Table doesn't exist, just create it
-            await db.execute(`
-                    CREATE TABLE IF NOT EXISTS words (
-                        id TEXT PRIMARY KEY,
-                        original TEXT NOT NULL,
-                        translation TEXT NOT NULL,
-                        article TEXT DEFAULT '',
-                        score INTEGER DEFAULT 0,
-                        createdAt INTEGER NOT NULL,
-                        lastReviewedAt INTEGER DEFAULT 0,
-                        nextReviewAt INTEGER NOT NULL,
-                        updatedAt INTEGER NOT NULL,
-                        deletedAt INTEGER DEFAULT NULL
-                    )
-                `);
-          }
-        }
-      } catch (e) {
-        console.error('Migration check failed:', e);
-        // Fallback create if not exists
-        await db.execute(`
-            CREATE TABLE IF NOT EXISTS words (
-                id TEXT PRIMARY KEY,
-                original TEXT NOT NULL,
-                translation TEXT NOT NULL,
-                article TEXT DEFAULT '',
-                score INTEGER DEFAULT 0,
-                createdAt INTEGER NOT NULL,
-                lastReviewedAt INTEGER DEFAULT 0,
-                nextReviewAt INTEGER NOT NULL,
-                updatedAt INTEGER NOT NULL,
-                deletedAt INTEGER DEFAULT NULL
-            )
-        `);
-      }
+        await runMigrations(database);
 
-      // Check if language column exists
-      try {
-        const result = await db.select<any[]>('PRAGMA table_info(words)');
-        const hasLanguage = result.some(col => col.name === 'language');
-        if (!hasLanguage) {
-          console.log('Adding language column to words table...');
-          await db.execute("ALTER TABLE words ADD COLUMN language TEXT NOT NULL DEFAULT 'de'");
-        }
-      } catch (e) {
-        console.error('Failed to check/add language column:', e);
+        console.log('Database loaded successfully');
+        db = database;
+        return database;
+      } catch (error) {
+        console.error('Error initializing database:', error);
+        dbLoading = null;
+        throw error;
       }
-
-      console.log('Database loaded successfully');
-    } catch (error) {
-      console.error('Error initializing database:', error);
-      throw error;
-    }
+    })();
+    return dbLoading;
   }
   return db;
 }
 
+// Local schema version for diagnostics; null in the browser build, which has no SQLite
+export async function getLocalSchemaStatus(): Promise<SchemaStatus | null> {
+  const database = await initDatabase();
+  return database ? getSchemaStatus(database) : null;
+}
+
 export async function getAlgorithmSettings(): Promise<AlgorithmSettings> {
   // Ensure loaded
   if (Object.keys(inMemorySettings.intervals).length === 0) {
@@ -254,23 +254,136 @@ export async function getAllWords(language: string = 'de'): Promise<Word[]> {
   return result;
 }
 
-export async function getWordsForSync(lastSync: number): Promise<Word[]> {
+// A word that changed locally and still has to be pushed to the server. version goes up
+// with every edit queued for the word, which tells a newer edit apart from the one a push
+// acknowledged even when both were queued in the same millisecond.
+export interface OutboxEntry {
+  wordId: string;
+  queuedAt: number;
+  version: number;
+}
+
+// Upsert for outbox rows with `wordId, queuedAt` values
+const QUEUE_CONFLICT = 'ON CONFLICT(wordId) DO UPDATE SET queuedAt = excluded.queuedAt, version = outbox.version + 1';
+
+function queueInMemory(wordId: string, queuedAt: number) {
+  inMemoryOutbox[wordId] = { queuedAt, version: (inMemoryOutbox[wordId]?.version ?? 0) + 1 };
+}
+
+export async function enqueueWordChanges(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const database = await initDatabase();
+  const now = Date.now();
+
+  if (!database) {
+    ids.forEach(id => queueInMemory(id, now));
+    saveOutboxToStorage();
+    return;
+  }
+
+  await executeBatch(database, chunkRows(ids, 2).map(chunk => ({
+    sql: `INSERT INTO outbox (wordId, queuedAt) VALUES ${valuesPlaceholders(chunk.length, 2)}
+          ${QUEUE_CONFLICT}`,
+    values: chunk.flatMap(id => [id, now])
+  })));
+}
+
+// Queue every word, e.g. when logging in so the account receives words created while logged out
+export async function enqueueAllWords(): Promise<void> {
+  await enqueueWordsChangedSince(-1);
+}
+
+export async function enqueueWordsChangedSince(timestamp: number): Promise<void> {
+  const database = await initDatabase();
+  const now = Date.now();
+
+  if (!database) {
+    inMemoryWords.filter(w => w.updatedAt > timestamp).forEach(w => queueInMemory(w.id, now));
+    saveOutboxToStorage();
+    return;
+  }
+
+  await database.execute(
+    `INSERT INTO outbox (wordId, queuedAt) SELECT id, $1 FROM words WHERE updatedAt > $2 ${QUEUE_CONFLICT}`,
+    [now, timestamp]
+  );
+}
+
+export async function getOutboxPage(limit: number): Promise<{ entries: OutboxEntry[]; words: Word[] }> {
+  const database = await initDatabase();
+  let entries: OutboxEntry[];
+
+  if (!database) {
+    entries = Object.entries(inMemoryOutbox)
+      .map(([wordId, entry]) => ({ wordId, ...entry }))
+      .sort((a, b) => a.queuedAt - b.queuedAt)
+      .slice(0, limit);
+  } else {
+    entries = await database.select<OutboxEntry[]>('SELECT wordId, queuedAt, version FROM outbox ORDER BY queuedAt LIMIT $1', [limit]);
+  }
+
+  if (entries.length === 0) return { entries, words: [] };
+
+  let words: Word[];
+  if (!database) {
+    const ids = new Set(entries.map(e => e.wordId));
+    words = inMemoryWords.filter(w => ids.has(w.id));
+  } else {
+    const placeholders = entries.map((_, i) => `$${i + 1}`).join(', ');
+    words = await database.select<Word[]>(`SELECT * FROM words WHERE id IN (${placeholders})`, entries.map(e => e.wordId));
+  }
+
+  return { entries, words };
+}
+
+// Removes pushed entries unless another edit of the word was queued after the page was read
+export async function acknowledgeOutbox(entries: OutboxEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  const database = await initDatabase();
+
+  if (!database) {
+    entries.forEach(e => {
+      if (inMemoryOutbox[e.wordId]?.version === e.version) {
+        delete inMemoryOutbox[e.wordId];
+      }
+    });
+    saveOutboxToStorage();
+    return;
+  }
+
+  await executeBatch(database, chunkRows(entries, 2).map(chunk => ({
+    sql: `WITH acknowledged(wordId, version) AS (VALUES ${valuesPlaceholders(chunk.length, 2)})
+          DELETE FROM outbox WHERE EXISTS (
+            SELECT 1 FROM acknowledged a WHERE a.wordId = outbox.wordId AND a.version = outbox.version
+          )`,
+    values: chunk.flatMap(e => [e.wordId, e.version])
+  })));
+}
+
+export async function countOutbox(): Promise<number> {
   const database = await initDatabase();
   if (!database) {
-    return inMemoryWords.filter(w => w.updatedAt > lastSync);
+    return Object.keys(inMemoryOutbox).length;
   }
-  return await database.select<Word[]>('SELECT * FROM words WHERE updatedAt > $1', [lastSync]);
+  const result = await database.select<Array<{ count: number }>>('SELECT COUNT(*) AS count FROM outbox');
+  return result[0]?.count ?? 0;
 }
 
+const WORD_COLUMNS = ['id', 'original', 'translation', 'article', 'language', 'score', 'createdAt', 'lastReviewedAt', 'nextReviewAt', 'updatedAt', 'contentUpdatedAt', 'deletedAt'];
+
+// Inserts or replaces words with chunked multi-row statements in one round trip
 export async function upsertWords(words: Word[]): Promise<void> {
+  if (words.length === 0) return;
   const database = await initDatabase();
 
   if (!database) {
+    const indexById = new Map(inMemoryWords.map((w, i) => [w.id, i]));
     for (const w of words) {
-      const index = inMemoryWords.findIndex(existing => existing.id === w.id);
-      if (index >= 0) {
+      const index = indexById.get(w.id);
+      if (index !== undefined) {
         inMemoryWords[index] = w;
       } else {
+        indexById.set(w.id, inMemoryWords.length);
         inMemoryWords.push(w);
       }
     }
@@ -278,20 +391,103 @@ export async function upsertWords(words: Word[]): Promise<void> {
     return;
   }
 
-  for (const w of words) {
+  const updates = WORD_COLUMNS.filter(c => c !== 'id').map(c => `${c} = excluded.${c}`).join(', ');
+
+  await executeBatch(database, chunkRows(words, WORD_COLUMNS.length).map(chunk => ({
+    sql: `INSERT INTO words (${WORD_COLUMNS.join(', ')}) VALUES ${valuesPlaceholders(chunk.length, WORD_COLUMNS.length)}
+          ON CONFLICT(id) DO UPDATE SET ${updates}`,
     // Default language to 'de' if missing
-    const lang = w.language || 'de';
-    await database.execute(
-      `INSERT INTO words (id, original, translation, article, language, score, createdAt, lastReviewedAt, nextReviewAt, updatedAt, deletedAt)
-             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
-             ON CONFLICT(id) DO UPDATE SET
-             original = $2, translation = $3, article = $4, language = $5, score = $6, createdAt = $7, lastReviewedAt = $8, nextReviewAt = $9, updatedAt = $10, deletedAt = $11`,
-      [w.id, w.original, w.translation, w.article, lang, w.score, w.createdAt, w.lastReviewedAt, w.nextReviewAt, w.updatedAt, w.deletedAt]
-    );
+    values: chunk.flatMap(w => [w.id, w.original, w.translation, w.article, w.language || 'de', w.score, w.createdAt, w.lastReviewedAt, w.nextReviewAt, w.updatedAt, w.contentUpdatedAt || w.updatedAt, w.deletedAt])
+  })));
+}
+
+// Same rules as the server: text edits and review progress are resolved independently
+export function mergeWord(local: Word, remote: Word): Word {
+  const localContentAt = local.contentUpdatedAt || local.updatedAt;
+  const remoteContentAt = remote.contentUpdatedAt || remote.updatedAt;
+  const content = remoteContentAt > localContentAt ? remote : local;
+
+  const remoteReviewedLater = remote.lastReviewedAt > local.lastReviewedAt
+    || (remote.lastReviewedAt === local.lastReviewedAt && remote.updatedAt > local.updatedAt);
+  const review = remoteReviewedLater ? remote : local;
+
+  const deletedAt = local.deletedAt && remote.deletedAt
+    ? Math.min(local.deletedAt, remote.deletedAt)
+    : local.deletedAt || remote.deletedAt;
+
+  return {
+    id: local.id,
+    original: content.original,
+    translation: content.translation,
+    article: content.article,
+    language: content.language || 'de',
+    contentUpdatedAt: Math.max(localContentAt, remoteContentAt),
+    score: review.score,
+    lastReviewedAt: review.lastReviewedAt,
+    nextReviewAt: review.nextReviewAt,
+    createdAt: Math.min(local.createdAt, remote.createdAt),
+    updatedAt: Math.max(local.updatedAt, remote.updatedAt),
+    deletedAt
+  };
+}
+
+// Apply words received from the server without clobbering local edits made while the sync was in flight
+export async function reconcileWords(remoteWords: Word[]): Promise<void> {
+  if (remoteWords.length === 0) return;
+
+  const database = await initDatabase();
+  let localWords: Word[];
+
+  if (!database) {
+    const ids = new Set(remoteWords.map(w => w.id));
+    localWords = inMemoryWords.filter(w => ids.has(w.id));
+  } else {
+    localWords = [];
+    for (const chunk of chunkRows(remoteWords.map(w => w.id), 1)) {
+      const placeholders = chunk.map((_, i) => `$${i + 1}`).join(', ');
+      localWords.push(...await database.select<Word[]>(`SELECT * FROM words WHERE id IN (${placeholders})`, chunk));
+    }
+  }
+
+  const localById = new Map(localWords.map(w => [w.id, w]));
+  const merged = remoteWords.map(remote => {
+    const local = localById.get(remote.id);
+    return local ? mergeWord(local, remote) : remote;
+  });
+
+  await upsertWords(merged);
+}
+
+// Moves words to new IDs, together with their reviews and outbox entries. Used when the
+// server refuses an ID because another account already has a word with it.
+export async function rekeyWords(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const database = await initDatabase();
+  const now = Date.now();
+  const newIds = new Map(ids.map(id => [id, generateUUID()]));
+
+  if (!database) {
+    inMemoryWords.forEach(w => { w.id = newIds.get(w.id) ?? w.id; });
+    inMemoryReviews.forEach(r => { r.wordId = newIds.get(r.wordId) ?? r.wordId; });
+    newIds.forEach((newId, id) => {
+      delete inMemoryOutbox[id];
+      queueInMemory(newId, now);
+    });
+    saveToStorage();
+    saveReviewsToStorage();
+    saveOutboxToStorage();
+    return;
   }
+
+  await executeBatch(database, [...newIds].flatMap(([id, newId]) => [
+    { sql: `INSERT INTO outbox (wordId, queuedAt) VALUES ($1, $2) ${QUEUE_CONFLICT}`, values: [newId, now] },
+    { sql: 'UPDATE reviews SET wordId = $2 WHERE wordId = $1', values: [id, newId] },
+    { sql: 'UPDATE words SET id = $2 WHERE id = $1', values: [id, newId] },
+    { sql: 'DELETE FROM outbox WHERE wordId = $1', values: [id] }
+  ]));
 }
 
-export async function addWord(word: Omit<Word, 'id' | 'updatedAt' | 'deletedAt'>): Promise<string> {
+export async function addWord(word: Omit<Word, 'id' | 'updatedAt' | 'contentUpdatedAt' | 'deletedAt'>): Promise<string> {
   const database = await initDatabase();
   const now = Date.now();
   const newId = generateUUID();
@@ -307,15 +503,17 @@ export async function addWord(word: Omit<Word, 'id' | 'updatedAt' | 'deletedAt'>
       lastReviewedAt: word.lastReviewedAt ?? 0,
       nextReviewAt: word.nextReviewAt ?? now,
       updatedAt: now,
+      contentUpdatedAt: now,
       deletedAt: null
     };
     inMemoryWords.unshift(newWord);
     saveToStorage();
+    await enqueueWordChanges([newId]);
     return newId;
   }
 
   await database.execute(
-    'INSERT INTO words (id, original, translation, article, language, score, createdAt, lastReviewedAt, nextReviewAt, updatedAt, deletedAt) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)',
+    'INSERT INTO words (id, original, translation, article, language, score, createdAt, lastReviewedAt, nextReviewAt, updatedAt, contentUpdatedAt, deletedAt) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)',
     [
       newId,
       word.original,
@@ -327,9 +525,11 @@ export async function addWord(word: Omit<Word, 'id' | 'updatedAt' | 'deletedAt'>
       word.lastReviewedAt ?? 0,
       word.nextReviewAt ?? now,
       now,
+      now,
       null
     ]
   );
+  await enqueueWordChanges([newId]);
   return newId;
 }
 
@@ -343,11 +543,13 @@ export async function deleteWord(id: string): Promise<void> {
       inMemoryWords[index].deletedAt = now;
       inMemoryWords[index].updatedAt = now;
       saveToStorage();
+      await enqueueWordChanges([id]);
     }
     return;
   }
 
   await database.execute('UPDATE words SET deletedAt = $1, updatedAt = $1 WHERE id = $2', [now, id]);
+  await enqueueWordChanges([id]);
 }
 
 function saveToStorage() {
@@ -369,6 +571,157 @@ function loadFromStorage() {
   }
 }
 
+function saveOutboxToStorage() {
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(inMemoryOutbox));
+  }
+}
+
+function loadOutboxFromStorage() {
+  if (typeof localStorage !== 'undefined') {
+    const stored = localStorage.getItem(OUTBOX_STORAGE_KEY);
+    if (stored) {
+      try {
+        const parsed: Record<string, number | Omit<OutboxEntry, 'wordId'>> = JSON.parse(stored);
+        // Entries stored before versions were counted hold only queuedAt
+        inMemoryOutbox = Object.fromEntries(Object.entries(parsed).map(([wordId, entry]) =>
+          [wordId, typeof entry === 'number' ? { queuedAt: entry, version: 1 } : entry]));
+      } catch (e) {
+        console.error('Failed to parse stored outbox', e);
+      }
+    }
+  }
+}
+
+function saveReviewsToStorage() {
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(REVIEWS_STORAGE_KEY, JSON.stringify(inMemoryReviews));
+  }
+}
+
+function loadReviewsFromStorage() {
+  if (typeof localStorage !== 'undefined') {
+    const stored = localStorage.getItem(REVIEWS_STORAGE_KEY);
+    if (stored) {
+      try {
+        inMemoryReviews = JSON.parse(stored);
+      } catch (e) {
+        console.error('Failed to parse stored reviews', e);
+      }
+    }
+  }
+}
+
+async function insertReviews(reviews: ReviewEvent[], synced: boolean): Promise<void> {
+  if (reviews.length === 0) return;
+  const database = await initDatabase();
+
+  if (!database) {
+    const knownIds = new Set(inMemoryReviews.map(r => r.id));
+    for (const r of reviews) {
+      if (!knownIds.has(r.id)) {
+        inMemoryReviews.push({ ...r, synced });
+        knownIds.add(r.id);
+      }
+    }
+    saveReviewsToStorage();
+    return;
+  }
+
+  // Events are immutable, so a duplicate ID is always the same event
+  await executeBatch(database, chunkRows(reviews, 9).map(chunk => ({
+    sql: `INSERT OR IGNORE INTO reviews (id, wordId, reviewedAt, outcome, previousScore, newScore, interval, deviceId, synced)
+          VALUES ${valuesPlaceholders(chunk.length, 9)}`,
+    values: chunk.flatMap(r => [r.id, r.wordId, r.reviewedAt, r.outcome, r.previousScore, r.newScore, r.interval, r.deviceId, synced ? 1 : 0])
+  })));
+}
+
+async function recordReview(wordId: string, reviewedAt: number, previousScore: number, newScore: number, nextReviewAt: number, scoreChange: number): Promise<void> {
+  await insertReviews([{
+    id: generateUUID(),
+    wordId,
+    reviewedAt,
+    outcome: scoreChange > 0 ? 'correct' : 'incorrect',
+    previousScore,
+    newScore,
+    interval: nextReviewAt - reviewedAt,
+    deviceId: getDeviceId()
+  }], false);
+}
+
+export async function getUnsyncedReviews(limit: number): Promise<ReviewEvent[]> {
+  const database = await initDatabase();
+  if (!database) {
+    return inMemoryReviews
+      .filter(r => !r.synced)
+      .sort((a, b) => a.reviewedAt - b.reviewedAt)
+      .slice(0, limit)
+      .map(({ synced, ...r }) => r);
+  }
+  return await database.select<ReviewEvent[]>(
+    'SELECT id, wordId, reviewedAt, outcome, previousScore, newScore, interval, deviceId FROM reviews WHERE synced = 0 ORDER BY reviewedAt ASC LIMIT $1',
+    [limit]
+  );
+}
+
+export async function countUnsyncedReviews(): Promise<number> {
+  const database = await initDatabase();
+  if (!database) {
+    return inMemoryReviews.filter(r => !r.synced).length;
+  }
+  const result = await database.select<Array<{ count: number }>>('SELECT COUNT(*) AS count FROM reviews WHERE synced = 0');
+  return result[0]?.count ?? 0;
+}
+
+export async function markReviewsSynced(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const database = await initDatabase();
+
+  if (!database) {
+    const idSet = new Set(ids);
+    inMemoryReviews.forEach(r => {
+      if (idSet.has(r.id)) r.synced = true;
+    });
+    saveReviewsToStorage();
+    return;
+  }
+
+  await executeBatch(database, chunkRows(ids, 1).map(chunk => ({
+    sql: `UPDATE reviews SET synced = 1 WHERE id IN (${chunk.map((_, i) => `$${i + 1}`).join(', ')})`,
+    values: chunk
+  })));
+}
+
+// Store review events that were recorded on other devices
+export async function saveRemoteReviews(reviews: ReviewEvent[]): Promise<void> {
+  await insertReviews(reviews, true);
+}
+
+export async function getReviewHistory(wordId: string): Promise<ReviewEvent[]> {
+  const database = await initDatabase();
+  if (!database) {
+    return inMemoryReviews
+      .filter(r => r.wordId === wordId)
+      .map(({ synced, ...r }) => r)
+      .sort((a, b) => a.reviewedAt - b.reviewedAt);
+  }
+  return await database.select<ReviewEvent[]>(
+    'SELECT id, wordId, reviewedAt, outcome, previousScore, newScore, interval, deviceId FROM reviews WHERE wordId = $1 ORDER BY reviewedAt ASC',
+    [wordId]
+  );
+}
+
+// Rebuild a word's review state from its event history (events from all devices, any order)
+export function replayReviews(reviews: ReviewEvent[]): Pick<Word, 'score' | 'lastReviewedAt' | 'nextReviewAt'> | null {
+  if (reviews.length === 0) return null;
+  const last = [...reviews].sort((a, b) => a.reviewedAt - b.reviewedAt)[reviews.length - 1];
+  return {
+    score: last.newScore,
+    lastReviewedAt: last.reviewedAt,
+    nextReviewAt: last.reviewedAt + last.interval
+  };
+}
+
 function calculateNextReview(score: number): number {
   const now = Date.now();
 
@@ -393,6 +746,7 @@ export async function updateWordReview(id: string, scoreChange: number): Promise
   if (!database) {
     const word = inMemoryWords.find(w => w.id === id);
     if (word) {
+      const previousScore = word.score;
       let newScore = word.score + scoreChange;
 
       // Apply max score behavior
@@ -411,6 +765,8 @@ export async function updateWordReview(id: string, scoreChange: number): Promise
       word.nextReviewAt = calculateNextReview(word.score);
       word.updatedAt = now;
       saveToStorage();
+      await enqueueWordChanges([id]);
+      await recordReview(id, now, previousScore, word.score, word.nextReviewAt, scoreChange);
     }
     return;
   }
@@ -433,6 +789,8 @@ export async function updateWordReview(id: string, scoreChange: number): Promise
     'UPDATE words SET score = $1, lastReviewedAt = $2, nextReviewAt = $3, updatedAt = $2 WHERE id = $4',
     [newScore, now, nextReviewAt, id]
   );
+  await enqueueWordChanges([id]);
+  await recordReview(id, now, currentScore, newScore, nextReviewAt, scoreChange);
 }
 
 export async function updateWordDetails(id: string, original: string, translation: string, article: string): Promise<void> {
@@ -446,15 +804,18 @@ export async function updateWordDetails(id: string, original: string, translatio
       word.translation = translation;
       word.article = article;
       word.updatedAt = now;
+      word.contentUpdatedAt = now;
       saveToStorage();
+      await enqueueWordChanges([id]);
     }
     return;
   }
 
   await database.execute(
-    'UPDATE words SET original = $1, translation = $2, article = $3, updatedAt = $4 WHERE id = $5',
+    'UPDATE words SET original = $1, translation = $2, article = $3, updatedAt = $4, contentUpdatedAt = $4 WHERE id = $5',
     [original, translation, article, now, id]
   );
+  await enqueueWordChanges([id]);
 }
 
 export async function exportWords(): Promise<string> {
@@ -477,7 +838,6 @@ export async function exportWords(): Promise<string> {
 }
 
 export async function importWords(text: string): Promise<{ added: number; skipped: number; errors: string[] }> {
-  const database = await initDatabase();
   const existingWords = await getAllWords();
 
   const existingSet = new Set(
@@ -488,6 +848,7 @@ export async function importWords(text: string): Promise<{ added: number; skippe
   let added = 0;
   let skipped = 0;
   const errors: string[] = [];
+  const newWords: Word[] = [];
 
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i].trim();
@@ -514,27 +875,54 @@ export async function importWords(text: string): Promise<{ added: number; skippe
       continue;
     }
 
-    try {
-      await addWord({
-        original,
-        translation,
-        article,
-        language: 'de', // Default to German for imports for now
-        score: 0,
-        createdAt: Date.now(),
-        lastReviewedAt: 0,
-        nextReviewAt: Date.now()
-      });
-      existingSet.add(key);
-      added++;
-    } catch (error) {
-      errors.push(`Line ${i + 1}: Failed to add word - ${error}`);
-    }
+    const now = Date.now();
+    newWords.push({
+      id: generateUUID(),
+      original,
+      translation,
+      article,
+      language: 'de', // Default to German for imports for now
+      score: 0,
+      createdAt: now,
+      lastReviewedAt: 0,
+      nextReviewAt: now,
+      updatedAt: now,
+      contentUpdatedAt: now,
+      deletedAt: null
+    });
+    existingSet.add(key);
+  }
+
+  // Written in bulk so large imports don't cost one round trip per word
+  try {
+    await upsertWords(newWords);
+    await enqueueWordChanges(newWords.map(w => w.id));
+    added = newWords.length;
+  } catch (error) {
+    errors.push(`Failed to add words - ${error}`);
   }
 
   return { added, skipped, errors };
 }
 
+// Removes every word together with its reviews and queued changes, e.g. when another account
+// logs in and its user does not want to keep them
+export async function clearLocalWords(): Promise<void> {
+  const database = await initDatabase();
+
+  if (!database) {
+    inMemoryWords = [];
+    inMemoryReviews = [];
+    inMemoryOutbox = {};
+    saveToStorage();
+    saveReviewsToStorage();
+    saveOutboxToStorage();
+    return;
+  }
+
+  await executeBatch(database, ['outbox', 'reviews', 'words'].map(table => ({ sql: `DELETE FROM ${table}`, values: [] })));
+}
+
 export async function resetAllWords(): Promise<void> {
   const database = await initDatabase();
   const now = Date.now();
@@ -548,6 +936,7 @@ export async function resetAllWords(): Promise<void> {
       updatedAt: now
     }));
     saveToStorage();
+    await enqueueWordsChangedSince(now - 1);
     return;
   }
 
@@ -555,4 +944,5 @@ export async function resetAllWords(): Promise<void> {
     'UPDATE words SET score = 0, lastReviewedAt = $1, nextReviewAt = $1, updatedAt = $1',
     [now]
   );
+  await enqueueWordsChangedSince(now - 1);
 }
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { isNewerDictionaryVersion, normalizePhrase } from './dictionary';
+
+describe('isNewerDictionaryVersion', () => {
+  it('compares timestamps', () => {
+    expect(isNewerDictionaryVersion('20250301120000', '20250201120000')).toBe(true);
+    expect(isNewerDictionaryVersion('20250201120000', '20250301120000')).toBe(false);
+    expect(isNewerDictionaryVersion('20250301120000', '20250301120000')).toBe(false);
+  });
+
+  it('treats a date without time as midnight', () => {
+    expect(isNewerDictionaryVersion('20250301', '20250301000000')).toBe(false);
+    expect(isNewerDictionaryVersion('20250301000001', '20250301')).toBe(true);
+    expect(isNewerDictionaryVersion('20250302', '20250301235959')).toBe(true);
+  });
+
+  it('prefers any version over none', () => {
+    expect(isNewerDictionaryVersion('20250301', '')).toBe(true);
+    expect(isNewerDictionaryVersion('', '20250301')).toBe(false);
+  });
+});
+
+describe('normalizePhrase', () => {
+  it('lower cases and drops diacritics', () => {
+    expect(normalizePhrase('Größe Übung café')).toEqual(['große', 'ubung', 'cafe']);
+  });
+
+  it('splits on anything that is not a letter or digit', () => {
+    expect(normalizePhrase('to go (away), e.g. 2x')).toEqual(['to', 'go', 'away', 'e', 'g', '2x']);
+  });
+
+  it('returns no tokens for punctuation only', () => {
+    expect(normalizePhrase(' -- ; ')).toEqual([]);
+  });
+});
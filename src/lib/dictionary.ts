@@ -1,5 +1,6 @@
 import { invoke } from '@tauri-apps/api/core';
 import Database from '@tauri-apps/plugin-sql';
+import type { DictionaryDatabase } from '@/lib/browserDictionary';
 
 export interface DictionaryEntry {
   word: string;
@@ -18,7 +19,48 @@ export interface DictionaryInfo {
   logs: string[];
 }
 
-let db: Database | null = null;
+// An inflected form and the headword it belongs to, e.g. "Häuser" -> "Haus" (noun, nominative, plural)
+export interface LemmaMatch {
+  form: string;
+  lemma: string;
+  descriptions: string[]; // One per reading, a form can be several cases at once
+  entry: DictionaryEntry | null;
+}
+
+// Published by the server at /dictionaries/<lang>/manifest
+export interface DictionaryManifest {
+  lang: string;
+  version: string; // YYYYMMDD or YYYYMMDDHHMMSS
+  size: number;
+  sha256: string;
+  url: string;
+}
+
+let db: DictionaryDatabase | null = null; // Tauri SQL plugin, or sql.js in the browser build
+let hasMeaningIndex: boolean | null = null; // Dictionaries built before the index lack meaning_fts
+let hasFormsTable: boolean | null = null; // Only dictionaries built with --forms have inflected forms
+
+interface DictionaryRow {
+  word: string;
+  pronunciation: string | null;
+  gender: string | null;
+  meanings: string;
+  notes: string;
+  synonyms: string;
+  seeAlso: string;
+}
+
+function toEntry(row: DictionaryRow): DictionaryEntry {
+  return {
+    word: row.word,
+    pronunciation: row.pronunciation || undefined,
+    gender: row.gender || undefined,
+    meanings: JSON.parse(row.meanings || '[]'),
+    notes: JSON.parse(row.notes || '[]'),
+    synonyms: JSON.parse(row.synonyms || '[]'),
+    seeAlso: JSON.parse(row.seeAlso || '[]'),
+  };
+}
 
 // Check if running in Tauri
 function isTauri(): boolean {
@@ -29,6 +71,8 @@ function isTauri(): boolean {
 
 // Initialize dictionary database (call this on app startup)
 export async function initializeDictionary(language: string = 'de'): Promise<DictionaryInfo | null> {
+  if (!isTauri()) return initializeBrowserDictionary(language);
+
   try {
     console.log(`[Dictionary] Attempting to initialize for language: ${language}...`);
 
@@ -47,6 +91,8 @@ export async function initializeDictionary(language: string = 'de'): Promise<Dic
     console.log('[Dictionary] Loading DB from path:', dbPath);
 
     db = await Database.load(`sqlite:${dbPath}`);
+    hasMeaningIndex = null;
+    hasFormsTable = null;
     console.log('[Dictionary] Database connection established');
 
     return info;
@@ -63,12 +109,43 @@ export async function initializeDictionary(language: string = 'de'): Promise<Dic
   }
 }
 
+// Browser build: opens the dictionary kept in browser storage, see browserDictionary.ts
+async function initializeBrowserDictionary(language: string): Promise<DictionaryInfo> {
+  console.debug(`[Dictionary] Opening browser dictionary for language: ${language}...`);
+  const { openBrowserDictionary } = await import('@/lib/browserDictionary');
+  const opened = await openBrowserDictionary(language);
+
+  // Each open dictionary lives in memory, so the previous one is released
+  await db?.close();
+  db = opened?.database || null;
+  hasMeaningIndex = null;
+  hasFormsTable = null;
+
+  if (!opened) {
+    console.debug('[Dictionary] No dictionary in browser storage. Skipping load.');
+    return { version: '', path: '', exists: false, logs: [`[Browser] No ${language} dictionary stored`] };
+  }
+  console.debug('[Dictionary] Browser database ready:', opened.path, opened.version);
+  return { version: opened.version, path: opened.path, exists: true, logs: [`[Browser] Loaded ${opened.path} (version ${opened.version || 'unknown'})`] };
+}
+
+// Versions are build dates of differing precision, so they are compared after padding
+export function isNewerDictionaryVersion(candidate: string, installed: string): boolean {
+  const pad = (version: string) => version.padEnd(14, '0');
+  return pad(candidate) > pad(installed);
+}
+
+export async function sha256Hex(data: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
 // Search dictionary for autocomplete suggestions (German word search)
 export async function searchDictionary(query: string, limit: number = 10): Promise<DictionaryEntry[]> {
-  console.log('[Dictionary] searchDictionary called:', { query, limit, hasTauri: isTauri(), hasDb: !!db });
+  console.debug('[Dictionary] searchDictionary called:', { query, limit, hasDb: !!db });
 
-  if (!isTauri() || !db) {
-    console.log('[Dictionary] Search aborted: no Tauri or no DB');
+  if (!db) {
+    console.debug('[Dictionary] Search aborted: no DB');
     return [];
   }
 
@@ -153,10 +230,10 @@ export function levenshteinDistance(a: string, b: string): number {
 
 // Search dictionary by English meaning (reverse lookup)
 export async function searchByMeaning(query: string, limit: number = 10): Promise<DictionaryEntry[]> {
-  console.log('[Dictionary] searchByMeaning called:', { query, limit, hasTauri: isTauri(), hasDb: !!db });
+  console.debug('[Dictionary] searchByMeaning called:', { query, limit, hasDb: !!db });
 
-  if (!isTauri() || !db) {
-    console.log('[Dictionary] Search aborted: no Tauri or no DB');
+  if (!db) {
+    console.debug('[Dictionary] Search aborted: no DB');
     return [];
   }
 
@@ -165,6 +242,81 @@ export async function searchByMeaning(query: string, limit: number = 10): Promis
     return [];
   }
 
+  if (hasMeaningIndex === null) {
+    const tables = await db.select<Array<{ name: string }>>(
+      `SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'meaning_fts'`
+    );
+    // The table exists but cannot be read without FTS5, as in the browser build's sql.js
+    hasMeaningIndex = tables.length > 0 && await db.select(`SELECT rowid FROM meaning_fts LIMIT 0`).then(() => true, () => false);
+    console.debug('[Dictionary] Meaning index available:', hasMeaningIndex);
+  }
+
+  if (hasMeaningIndex) {
+    try {
+      return await searchMeaningIndex(db, query, limit);
+    } catch (error) {
+      // E.g. an SQLite build without FTS5
+      console.error('[Dictionary] Meaning index search failed, falling back to LIKE:', error);
+      hasMeaningIndex = false;
+    }
+  }
+  return searchByMeaningWithoutIndex(db, query, limit);
+}
+
+// Must match normalizePhrase in scripts/build-dictionary-db.cjs, which fills meaning_fts
+export function normalizePhrase(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+// How many phrase hits are ranked before they are grouped into entries
+const MEANING_CANDIDATES = 500;
+
+// Ranked full-text search over individual meaning phrases. Entries are ordered by their best
+// phrase: the exact phrase first, then phrases starting with the query, then any phrase that
+// contains the words (the last one as a prefix); within each group by bm25 and by how early
+// the phrase comes in the entry's meanings.
+async function searchMeaningIndex(db: DictionaryDatabase, query: string, limit: number): Promise<DictionaryEntry[]> {
+  const tokens = normalizePhrase(query);
+  if (tokens.length === 0) return [];
+
+  const phrase = tokens.join(' ');
+  const quoted = tokens.map(token => `"${token}"`);
+  const match = tokens.length === 1
+    ? `${quoted[0]} *`
+    : `"${phrase}" * OR (${[...quoted.slice(0, -1), `${quoted[quoted.length - 1]} *`].join(' AND ')})`;
+
+  console.debug('[Dictionary] Meaning index query:', match);
+
+  const results = await db.select<Array<DictionaryRow & { match_rank: number }>>(
+    `SELECT d.word, d.pronunciation, d.gender, d.meanings, d.notes, d.synonyms, d.seeAlso,
+            MIN(hits.match_rank) AS match_rank, MIN(hits.score) AS score, MIN(hits.position) AS position
+     FROM (
+       SELECT entry_id, position, rank AS score,
+              CASE WHEN phrase = $2 THEN 0 WHEN phrase LIKE $2 || '%' THEN 1 ELSE 2 END AS match_rank
+       FROM meaning_fts
+       WHERE meaning_fts MATCH $1
+       ORDER BY match_rank, rank
+       LIMIT $3
+     ) AS hits
+     JOIN dictionary d ON d.id = hits.entry_id
+     GROUP BY d.id
+     ORDER BY match_rank, score, position, LENGTH(d.word), d.word
+     LIMIT $4`,
+    [match, phrase, MEANING_CANDIDATES, limit]
+  );
+
+  console.debug('[Dictionary] Meaning index returned', results.length, 'entries');
+  return results.map(toEntry);
+}
+
+// Reverse lookup for dictionaries built before the meaning index. Only sees the first 200 rows
+// containing the term, so good matches can be missed.
+async function searchByMeaningWithoutIndex(db: DictionaryDatabase, query: string, limit: number): Promise<DictionaryEntry[]> {
   try {
     const searchTerm = query.toLowerCase().trim();
     console.log('[Dictionary] Searching for English phrase:', searchTerm);
@@ -252,3 +404,59 @@ export async function searchByMeaning(query: string, limit: number = 10): Promis
     return [];
   }
 }
+
+// Looks up the lemmas an inflected form belongs to. Empty for headwords themselves, unknown
+// forms and dictionaries without a forms table.
+export async function lookupLemma(form: string): Promise<LemmaMatch[]> {
+  if (!db) return [];
+
+  const query = form.trim();
+  if (!query) return [];
+
+  if (hasFormsTable === null) {
+    const tables = await db.select<Array<{ name: string }>>(
+      `SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'forms'`
+    );
+    hasFormsTable = tables.length > 0;
+    console.debug('[Dictionary] Inflected forms available:', hasFormsTable);
+  }
+  if (!hasFormsTable) return [];
+
+  try {
+    const rows = await db.select<Array<{ lemma: string; description: string }>>(
+      `SELECT lemma, description FROM forms WHERE form = $1 ORDER BY rowid`,
+      [query.toLowerCase()]
+    );
+
+    const matches = new Map<string, LemmaMatch>();
+    for (const row of rows) {
+      const match = matches.get(row.lemma);
+      if (match) {
+        if (!match.descriptions.includes(row.description)) match.descriptions.push(row.description);
+      } else {
+        matches.set(row.lemma, { form: query, lemma: row.lemma, descriptions: [row.description], entry: null });
+      }
+    }
+
+    if (matches.size > 0) {
+      const lemmas = [...matches.keys()];
+      const placeholders = lemmas.map((_, i) => `LOWER($${i + 1})`).join(', ');
+      const entries = await db.select<DictionaryRow[]>(
+        `SELECT word, pronunciation, gender, meanings, notes, synonyms, seeAlso
+         FROM dictionary WHERE LOWER(word) IN (${placeholders})`,
+        lemmas
+      );
+      // The exact headword wins over one that only differs in case ("Essen", "essen")
+      for (const match of matches.values()) {
+        const row = entries.find(e => e.word === match.lemma)
+          || entries.find(e => e.word.toLowerCase() === match.lemma.toLowerCase());
+        match.entry = row ? toEntry(row) : null;
+      }
+    }
+
+    return [...matches.values()];
+  } catch (error) {
+    console.error('[Dictionary] Lemma lookup failed:', error);
+    return [];
+  }
+}
@@ -0,0 +1,154 @@
+import { sha256Hex } from '@/lib/dictionary';
+
+// Downloads into `<file>.part` in AppData, appending as data arrives, so an interrupted download
+// (pause, lost connection, app restart) continues where it stopped with a Range request. What is
+// being downloaded is recorded in `<file>.part.json`; a partial file is only continued when the
+// expected checksum is the same and the server confirms through If-Range that the file has not
+// changed. The finished file is verified and only then renamed to `<file>`.
+
+export interface ExpectedFile {
+  size: number;
+  sha256: string;
+  version: string;
+}
+
+export interface PartialDownload {
+  url: string;
+  expected: ExpectedFile | null; // Null when the server publishes no manifest
+  validator: string | null; // ETag or Last-Modified of the response the part came from
+  received: number;
+  total: number | null;
+}
+
+// Data is written once this much has arrived, which bounds memory use and what a crash loses
+const FLUSH_BYTES = 1024 * 1024;
+
+const fs = () => import('@tauri-apps/plugin-fs');
+
+const partFile = (file: string) => `${file}.part`;
+const metaFile = (file: string) => `${file}.part.json`;
+
+// The partial download of `file` left by an earlier run, if any
+export async function readPartialDownload(file: string): Promise<PartialDownload | null> {
+  const { BaseDirectory, exists, readTextFile, stat } = await fs();
+  if (!(await exists(metaFile(file), { baseDir: BaseDirectory.AppData }))) return null;
+
+  try {
+    const meta = JSON.parse(await readTextFile(metaFile(file), { baseDir: BaseDirectory.AppData }));
+    const received = (await exists(partFile(file), { baseDir: BaseDirectory.AppData }))
+      ? (await stat(partFile(file), { baseDir: BaseDirectory.AppData })).size
+      : 0;
+    return { ...meta, received };
+  } catch (e) {
+    console.warn(`[Download] Unreadable partial download of ${file}`, e);
+    return null;
+  }
+}
+
+export async function discardPartialDownload(file: string): Promise<void> {
+  const { BaseDirectory, remove } = await fs();
+  await remove(partFile(file), { baseDir: BaseDirectory.AppData }).catch(() => { });
+  await remove(metaFile(file), { baseDir: BaseDirectory.AppData }).catch(() => { });
+}
+
+async function saveMeta(file: string, meta: Omit<PartialDownload, 'received'>) {
+  const { BaseDirectory, writeTextFile } = await fs();
+  await writeTextFile(metaFile(file), JSON.stringify(meta), { baseDir: BaseDirectory.AppData });
+}
+
+async function verify(file: string, expected: ExpectedFile) {
+  const { BaseDirectory, readFile } = await fs();
+  const data = await readFile(partFile(file), { baseDir: BaseDirectory.AppData });
+  if (data.length !== expected.size) {
+    throw new Error(`Incomplete download (${data.length} of ${expected.size} bytes)`);
+  }
+  if ((await sha256Hex(data)) !== expected.sha256) {
+    throw new Error('Checksum mismatch');
+  }
+}
+
+// Downloads `url` to `file` in AppData, continuing a matching partial download. Aborting through
+// `signal` keeps the partial file for later. A finished download that fails verification is
+// discarded and reported as an error; `file` itself is only replaced after it passes.
+export async function downloadResumable(
+  url: string,
+  file: string,
+  options: { expected: ExpectedFile | null; signal?: AbortSignal; onProgress?: (received: number, total: number | null) => void }
+): Promise<void> {
+  const { expected, signal, onProgress } = options;
+  const { BaseDirectory, writeFile, rename } = await fs();
+
+  const partial = await readPartialDownload(file);
+  const resumable = !!partial && partial.received > 0 && partial.url === url
+    && partial.expected?.sha256 === expected?.sha256 && !!partial.validator;
+  if (partial && !resumable) await discardPartialDownload(file);
+
+  let received = resumable ? partial!.received : 0;
+  const headers: Record<string, string> = resumable ? { 'Range': `bytes=${received}-`, 'If-Range': partial!.validator! } : {};
+
+  let response = await fetch(url, { headers, signal });
+  if (response.status === 416) {
+    // The part is as long as (or longer than) the file, start over
+    await discardPartialDownload(file);
+    received = 0;
+    response = await fetch(url, { signal });
+  }
+  if (!response.ok) throw new Error(`Download failed: ${response.status} ${response.statusText}`);
+
+  // 200 instead of 206: the server ignored the range because the file changed, so start over
+  if (response.status !== 206) received = 0;
+
+  const length = Number(response.headers.get('Content-Length')) || 0;
+  const total = expected?.size || (length ? received + length : null);
+  const validator = response.headers.get('ETag') || response.headers.get('Last-Modified');
+  await saveMeta(file, { url, expected, validator, total });
+  if (received === 0) await writeFile(partFile(file), new Uint8Array(), { baseDir: BaseDirectory.AppData });
+
+  const reader = response.body?.getReader();
+  if (!reader) throw new Error('Failed to get reader');
+
+  let buffered: Uint8Array[] = [];
+  let bufferedBytes = 0;
+  const flush = async () => {
+    if (bufferedBytes === 0) return;
+    const chunk = new Uint8Array(bufferedBytes);
+    let offset = 0;
+    for (const part of buffered) {
+      chunk.set(part, offset);
+      offset += part.length;
+    }
+    buffered = [];
+    bufferedBytes = 0;
+    await writeFile(partFile(file), chunk, { baseDir: BaseDirectory.AppData, append: true });
+  };
+
+  onProgress?.(received, total);
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffered.push(value);
+      bufferedBytes += value.length;
+      received += value.length;
+      if (bufferedBytes >= FLUSH_BYTES) await flush();
+      onProgress?.(received, total);
+    }
+  } finally {
+    // Also keeps what arrived before a pause or a dropped connection
+    await flush();
+  }
+
+  if (expected) {
+    try {
+      await verify(file, expected);
+    } catch (e) {
+      // Resuming a corrupt part would only fail again
+      await discardPartialDownload(file);
+      throw e;
+    }
+  }
+
+  await rename(partFile(file), file, { oldPathBaseDir: BaseDirectory.AppData, newPathBaseDir: BaseDirectory.AppData });
+  await discardPartialDownload(file);
+}
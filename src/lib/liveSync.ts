@@ -0,0 +1,69 @@
+import { withProtocolHeader } from './protocol';
+
+export interface LiveSyncHandlers {
+  onOpen: () => void;
+  onEvent: (event: string, data: any) => void;
+}
+
+// Reads the server's Server-Sent Events stream with fetch so the JWT can be sent
+// in the Authorization header (EventSource cannot set headers).
+// Resolves when the server closes the stream, rejects on network or HTTP errors.
+export async function listenForChanges(url: string, token: string, signal: AbortSignal, handlers: LiveSyncHandlers): Promise<void> {
+  const response = await fetch(url, {
+    headers: withProtocolHeader({
+      'Accept': 'text/event-stream',
+      'Authorization': `Bearer ${token}`
+    }),
+    signal
+  });
+
+  if (!response.ok) {
+    // status lets the caller refresh an expired token before reconnecting
+    throw Object.assign(new Error(`Live sync connection failed (${response.status})`), { status: response.status });
+  }
+
+  const reader = response.body?.getReader();
+  if (!reader) throw new Error('Failed to get reader');
+
+  handlers.onOpen();
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary >= 0) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      dispatchEvent(block, handlers);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+}
+
+function dispatchEvent(block: string, handlers: LiveSyncHandlers) {
+  let event = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith(':')) continue; // Comment / heartbeat
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) dataLines.push(line.slice(5).trim());
+  }
+
+  if (dataLines.length === 0) return;
+
+  let data: any = dataLines.join('\n');
+  try {
+    data = JSON.parse(data);
+  } catch {
+    // Plain text payload
+  }
+  handlers.onEvent(event, data);
+}
@@ -0,0 +1,39 @@
+import type { MigrationUp } from '../migrator';
+import { hasTable, hasColumn } from '../migrator';
+
+const CREATE_WORDS = `
+    CREATE TABLE IF NOT EXISTS words (
+        id TEXT PRIMARY KEY,
+        original TEXT NOT NULL,
+        translation TEXT NOT NULL,
+        article TEXT DEFAULT '',
+        score INTEGER DEFAULT 0,
+        createdAt INTEGER NOT NULL,
+        lastReviewedAt INTEGER DEFAULT 0,
+        nextReviewAt INTEGER NOT NULL,
+        updatedAt INTEGER NOT NULL,
+        deletedAt INTEGER DEFAULT NULL
+    )`;
+
+// Random version 4 UUID in plain SQLite
+const SQL_UUID = `lower(hex(randomblob(4)) || '-' || hex(randomblob(2)) || '-4' || substr(hex(randomblob(2)), 2) || '-'
+    || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(hex(randomblob(2)), 2) || '-' || hex(randomblob(6)))`;
+
+// The first app versions used integer ids and had no updatedAt column. Those tables are
+// rebuilt with UUIDs so the words can be synced; fresh installs just create the table.
+export const up: MigrationUp = async (db) => {
+  if (!(await hasTable(db, 'words')) || (await hasColumn(db, 'words', 'updatedAt'))) {
+    return [CREATE_WORDS];
+  }
+
+  const now = Date.now();
+  return [
+    'ALTER TABLE words RENAME TO words_old',
+    CREATE_WORDS,
+    `INSERT INTO words (id, original, translation, article, score, createdAt, lastReviewedAt, nextReviewAt, updatedAt, deletedAt)
+     SELECT ${SQL_UUID}, original, translation, COALESCE(article, ''), COALESCE(score, 0),
+            COALESCE(createdAt, ${now}), COALESCE(lastReviewedAt, 0), COALESCE(nextReviewAt, ${now}), ${now}, NULL
+     FROM words_old`,
+    'DROP TABLE words_old'
+  ];
+};
@@ -0,0 +1,8 @@
+import type { MigrationUp } from '../migrator';
+import { hasColumn } from '../migrator';
+
+// Databases created before multi-language support may already have the column
+export const up: MigrationUp = async (db) => {
+  if (await hasColumn(db, 'words', 'language')) return [];
+  return ["ALTER TABLE words ADD COLUMN language TEXT NOT NULL DEFAULT 'de'"];
+};
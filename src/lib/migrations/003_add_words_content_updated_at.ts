@@ -0,0 +1,11 @@
+import type { MigrationUp } from '../migrator';
+import { hasColumn } from '../migrator';
+
+// Edit time of the word's content, compared separately from review state during sync
+export const up: MigrationUp = async (db) => {
+  if (await hasColumn(db, 'words', 'contentUpdatedAt')) return [];
+  return [
+    'ALTER TABLE words ADD COLUMN contentUpdatedAt INTEGER NOT NULL DEFAULT 0',
+    'UPDATE words SET contentUpdatedAt = updatedAt'
+  ];
+};
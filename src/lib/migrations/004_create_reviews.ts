@@ -0,0 +1,16 @@
+import type { MigrationUp } from '../migrator';
+
+export const up: MigrationUp = [
+  `CREATE TABLE IF NOT EXISTS reviews (
+      id TEXT PRIMARY KEY,
+      wordId TEXT NOT NULL,
+      reviewedAt INTEGER NOT NULL,
+      outcome TEXT NOT NULL,
+      previousScore INTEGER NOT NULL,
+      newScore INTEGER NOT NULL,
+      interval INTEGER NOT NULL,
+      deviceId TEXT NOT NULL,
+      synced INTEGER NOT NULL DEFAULT 0
+  )`,
+  'CREATE INDEX IF NOT EXISTS idx_reviews_word ON reviews(wordId, reviewedAt)'
+];
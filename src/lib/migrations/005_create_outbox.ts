@@ -0,0 +1,9 @@
+import type { MigrationUp } from '../migrator';
+
+// Words changed locally that still have to be pushed
+export const up: MigrationUp = [
+  `CREATE TABLE IF NOT EXISTS outbox (
+      wordId TEXT PRIMARY KEY,
+      queuedAt INTEGER NOT NULL
+  )`
+];
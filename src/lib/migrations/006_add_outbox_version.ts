@@ -0,0 +1,6 @@
+import type { MigrationUp } from '../migrator';
+
+// Counts the edits queued for a word, so a push only acknowledges the edit it sent
+export const up: MigrationUp = [
+  'ALTER TABLE outbox ADD COLUMN version INTEGER NOT NULL DEFAULT 1'
+];
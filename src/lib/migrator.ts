@@ -0,0 +1,99 @@
+import type Database from '@tauri-apps/plugin-sql';
+
+// Numbered schema migrations for the local SQLite database, authored the same way as the
+// server's: each file in ./migrations is named NNN_description.ts and exports `up`, the SQL
+// statements to run or a function that inspects the database and returns them.
+// Create new ones with `node scripts/new-migration.cjs client <name>`.
+
+export type MigrationUp = string[] | ((db: Database) => Promise<string[]>);
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: MigrationUp;
+}
+
+export interface SchemaStatus {
+  version: number; // Highest applied migration
+  applied: number;
+  pending: Migration[];
+}
+
+const MIGRATION_FILE = /\/(\d+)_(\w+)\.ts$/;
+
+const modules = import.meta.glob<{ up: MigrationUp }>('./migrations/*.ts', { eager: true });
+
+export const MIGRATIONS: Migration[] = Object.entries(modules)
+  .map(([file, module]) => {
+    const match = MIGRATION_FILE.exec(file);
+    if (!match) throw new Error(`Invalid migration file name: ${file}`);
+    return { version: parseInt(match[1]), name: match[2], up: module.up };
+  })
+  .sort((a, b) => a.version - b.version);
+
+export async function hasTable(db: Database, table: string): Promise<boolean> {
+  const rows = await db.select<any[]>("SELECT name FROM sqlite_master WHERE type = 'table' AND name = $1", [table]);
+  return rows.length > 0;
+}
+
+export async function hasColumn(db: Database, table: string, column: string): Promise<boolean> {
+  const columns = await db.select<any[]>(`PRAGMA table_info(${table})`);
+  return columns.some(col => col.name === column);
+}
+
+async function appliedVersions(db: Database): Promise<Set<number>> {
+  await db.execute(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+          version INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          appliedAt INTEGER NOT NULL
+      )
+  `);
+  const rows = await db.select<{ version: number }[]>('SELECT version FROM schema_migrations');
+  return new Set(rows.map(row => row.version));
+}
+
+export async function getSchemaStatus(db: Database): Promise<SchemaStatus> {
+  const applied = await appliedVersions(db);
+  return {
+    version: Math.max(0, ...applied),
+    applied: applied.size,
+    pending: MIGRATIONS.filter(m => !applied.has(m.version))
+  };
+}
+
+// Applies pending migrations in order. The SQL plugin may run each call on a different
+// pooled connection, so a migration and its schema_migrations row are sent as one batch
+// wrapped in BEGIN/COMMIT instead of separate calls. With dryRun nothing is written and
+// the statements are only logged.
+export async function runMigrations(db: Database, { dryRun = false } = {}): Promise<Migration[]> {
+  const { pending } = await getSchemaStatus(db);
+
+  for (const migration of pending) {
+    const label = `${String(migration.version).padStart(3, '0')}_${migration.name}`;
+    const statements = typeof migration.up === 'function' ? await migration.up(db) : migration.up;
+
+    if (dryRun) {
+      console.debug(`[Migrations] Would apply ${label}:`, statements);
+      continue;
+    }
+
+    // version comes from the file name and name matches \w+, so both are safe to inline
+    const batch = [
+      'BEGIN',
+      ...statements,
+      `INSERT INTO schema_migrations (version, name, appliedAt) VALUES (${migration.version}, '${migration.name}', ${Date.now()})`,
+      'COMMIT'
+    ].join(';\n');
+
+    try {
+      await db.execute(batch);
+      console.debug(`[Migrations] Applied ${label}`);
+    } catch (error) {
+      await db.execute('ROLLBACK').catch(() => { /* No transaction left open */ });
+      throw new Error(`Migration ${label} failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  return pending;
+}
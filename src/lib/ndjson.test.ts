@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { readNdjson } from './ndjson';
+
+// Response whose body arrives in the given chunks
+const streamed = (chunks: Uint8Array[]) => new Response(new ReadableStream({
+  start(controller) {
+    chunks.forEach(chunk => controller.enqueue(chunk));
+    controller.close();
+  }
+}));
+
+const collect = async <T>(response: Response) => {
+  const items: T[] = [];
+  for await (const item of readNdjson<T>(response)) items.push(item);
+  return items;
+};
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+describe('readNdjson', () => {
+  it('yields one value per line', async () => {
+    expect(await collect(streamed([encode('{"a":1}\n{"a":2}\n')]))).toEqual([{ a: 1 }, { a: 2 }]);
+  });
+
+  it('joins lines split across chunks', async () => {
+    expect(await collect(streamed([encode('{"text":"ab'), encode('c"}\n{"te'), encode('xt":"d"}\n')])))
+      .toEqual([{ text: 'abc' }, { text: 'd' }]);
+  });
+
+  it('decodes characters split across chunks', async () => {
+    const bytes = encode('{"word":"Größe"}\n');
+    const split = bytes.indexOf(0xc3) + 1; // Inside the two bytes of "ö"
+    expect(await collect(streamed([bytes.slice(0, split), bytes.slice(split)]))).toEqual([{ word: 'Größe' }]);
+  });
+
+  it('reads a last line without a newline and skips blank lines', async () => {
+    expect(await collect(streamed([encode('\n{"a":1}\n\n  \n{"a":2}')]))).toEqual([{ a: 1 }, { a: 2 }]);
+  });
+
+  it('yields nothing for an empty body', async () => {
+    expect(await collect(streamed([]))).toEqual([]);
+  });
+});
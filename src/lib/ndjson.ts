@@ -0,0 +1,28 @@
+export const NDJSON = 'application/x-ndjson';
+
+// Yields each line of a newline-delimited JSON response as soon as it has arrived
+export async function* readNdjson<T>(response: Response): AsyncGenerator<T> {
+  const reader = response.body?.getReader();
+  if (!reader) throw new Error('Failed to get reader');
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let newline = buffer.indexOf('\n');
+    while (newline >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line) yield JSON.parse(line) as T;
+      newline = buffer.indexOf('\n');
+    }
+  }
+
+  const rest = buffer.trim();
+  if (rest) yield JSON.parse(rest) as T;
+}
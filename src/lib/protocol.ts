@@ -0,0 +1,39 @@
+// Version of the API contract this app speaks, sent with every request to the sync server.
+// Must match server/src/protocol.ts; the server answers 426 if it cannot serve this version.
+export const PROTOCOL_VERSION = 2;
+export const PROTOCOL_HEADER = 'X-Protocol-Version';
+
+// The server tags every response with the ID its log lines for the request carry
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+export type ProtocolErrorCode = 'client_outdated' | 'server_outdated';
+
+// The app and the server cannot talk to each other until one of them is updated.
+// Retrying does not help, so sync stops until the app or the server URL changes.
+export class ProtocolError extends Error {
+  constructor(public code: ProtocolErrorCode, message: string) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+export function withProtocolHeader(headers: Record<string, string> = {}): Record<string, string> {
+  return { ...headers, [PROTOCOL_HEADER]: String(PROTOCOL_VERSION) };
+}
+
+// Turns a 426 response into a ProtocolError, other responses pass through
+export async function checkProtocol(response: Response): Promise<Response> {
+  if (response.status !== 426) return response;
+
+  let data: { code?: string; error?: string } = {};
+  try {
+    data = await response.json();
+  } catch {
+    // Proxies may answer 426 without a body
+  }
+
+  if (data.code === 'server_outdated') {
+    throw new ProtocolError('server_outdated', 'The sync server is older than this app. Please update the server.');
+  }
+  throw new ProtocolError('client_outdated', 'This app version is no longer supported by the sync server. Please update the app.');
+}
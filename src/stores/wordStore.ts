@@ -1,10 +1,90 @@
 import { defineStore } from 'pinia';
 import { ref, computed, watch } from 'vue';
-import { useNow, useStorage } from '@vueuse/core';
-import { getAllWords, addWord as dbAddWord, deleteWord as dbDeleteWord, updateWordReview, updateWordDetails as dbUpdateWordDetails, resetAllWords, getWordsForSync, upsertWords, getAlgorithmSettings, saveAlgorithmSettings as dbSaveAlgorithmSettings, type Word, type AlgorithmSettings } from '@/lib/database';
-import { initializeDictionary, searchDictionary, searchByMeaning, type DictionaryEntry, type DictionaryInfo } from '@/lib/dictionary';
+import { useNow, useStorage, StorageSerializers } from '@vueuse/core';
+import { getAllWords, addWord as dbAddWord, deleteWord as dbDeleteWord, updateWordReview, updateWordDetails as dbUpdateWordDetails, resetAllWords, getOutboxPage, acknowledgeOutbox, countOutbox, enqueueWordChanges, enqueueAllWords, enqueueWordsChangedSince, reconcileWords, rekeyWords, clearLocalWords, getUnsyncedReviews, countUnsyncedReviews, markReviewsSynced, saveRemoteReviews, getDeviceId, getAlgorithmSettings, saveAlgorithmSettings as dbSaveAlgorithmSettings, type Word, type AlgorithmSettings, type ReviewEvent } from '@/lib/database';
+import { listenForChanges } from '@/lib/liveSync';
+import { ProtocolError, checkProtocol, withProtocolHeader, REQUEST_ID_HEADER } from '@/lib/protocol';
+import { initializeDictionary, searchDictionary, searchByMeaning, isNewerDictionaryVersion, type DictionaryEntry, type DictionaryInfo, type DictionaryManifest } from '@/lib/dictionary';
 
 const API_URL = import.meta.env.VITE_API_URL || 'https://verteilte.joleif.dev';
+const SYNC_PAGE_SIZE = 200;
+const FALLBACK_SYNC_INTERVAL = 60 * 1000;
+const SYNC_MIN_RETRY = 2 * 1000;
+const SYNC_MAX_RETRY = 5 * 60 * 1000;
+const LIVE_SYNC_MIN_RETRY = 1000;
+const LIVE_SYNC_MAX_RETRY = 60 * 1000;
+
+// Position in the server's word and review streams, returned by /sync/pull
+interface SyncCursor {
+    words: { syncedAt: number; id: string | null };
+    reviews: { syncedAt: number; id: string | null };
+}
+
+// Preferences shared by all of a user's devices through /settings
+interface SyncedSettings {
+    algorithm: AlgorithmSettings;
+    learningLimit: number;
+    autoPlayAudio: boolean;
+    doubleBackspaceInterval: number;
+    sortStrategy: 'newest' | 'alphabetical' | 'review';
+    currentLanguage: string;
+}
+
+interface RemoteSettings {
+    settings: Partial<SyncedSettings> | null;
+    version: number;
+    updatedAt: number;
+}
+
+// Asked when an account logs in while the words on this device belong to another one.
+// True adds them to the new account, false removes them from the device.
+export type ConfirmMergeWords = () => boolean | Promise<boolean>;
+
+export interface AuthResult {
+    success: boolean;
+    error?: string;
+    code?: string;
+    retryAfter?: number;
+    recoveryCodes?: string[]; // Plain codes, only returned when they are (re)generated
+    remainingRecoveryCodes?: number;
+}
+
+export interface RecoveryStatus {
+    remaining: number;
+    generatedAt: number | null;
+}
+
+export interface DeviceSession {
+    id: string;
+    deviceName: string;
+    userAgent: string;
+    ip: string;
+    createdAt: number;
+    lastUsedAt: number;
+    current: boolean;
+}
+
+function isTauri(): boolean {
+    return typeof window !== 'undefined' && '__TAURI_INTERNALS__' in window;
+}
+
+// Human readable label for the sessions list, e.g. "Android app"
+function getDeviceName(): string {
+    const ua = typeof navigator !== 'undefined' ? navigator.userAgent : '';
+    const os = /Android/i.test(ua) ? 'Android'
+        : /iPhone|iPad/i.test(ua) ? 'iOS'
+        : /Windows/i.test(ua) ? 'Windows'
+        : /Mac OS/i.test(ua) ? 'macOS'
+        : /Linux/i.test(ua) ? 'Linux'
+        : 'Unknown';
+    return `${os} ${isTauri() ? 'app' : 'browser'}`;
+}
+
+export interface SyncProgress {
+    phase: 'push' | 'pull';
+    done: number;
+    total: number | null;
+}
 
 export const useWordStore = defineStore('words', () => {
     // State
@@ -40,8 +120,26 @@ export const useWordStore = defineStore('words', () => {
     // Auth State
     const user = ref<{ id: string; username: string } | null>(null);
     const token = useStorage('token', null);
-    const lastSyncTimestamp = useStorage('lastSyncTimestamp', 0);
+    const refreshToken = useStorage<string | null>('refreshToken', null);
+    let refreshInFlight: Promise<boolean> | null = null;
+    // Account the local words belong to. Kept on logout, so they only reach another account when its user agrees.
+    const localAccountId = useStorage<string | null>('localAccountId', null);
+    const lastSyncTimestamp = useStorage('lastSyncTimestamp', 0); // Only read to migrate from the single-request protocol
+    const pullCursor = useStorage<SyncCursor | null>('syncPullCursor', null, undefined, { serializer: StorageSerializers.object });
     const isSyncing = ref(false);
+    const syncProgress = ref<SyncProgress | null>(null);
+    const syncStatus = useStorage('syncStatus', { lastSuccessAt: 0, lastError: '', lastErrorAt: 0 });
+    const pendingChanges = ref(0);
+    const nextRetryAt = ref<number | null>(null);
+    let retryAttempt = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    const liveSyncConnected = ref(false);
+    const protocolError = ref<string | null>(null); // Set while the server rejects this app's protocol version
+    let syncQueued = false;
+    let applyingRemoteSettings = false;
+    const settingsSyncState = useStorage('settingsSyncState', { version: 0, updatedAt: 0, dirty: false });
+    let liveSyncController: AbortController | null = null;
+    let fallbackSyncTimer: ReturnType<typeof setInterval> | null = null;
 
     // Config State
     const apiUrl = useStorage('apiUrl', API_URL, localStorage);
@@ -170,7 +268,7 @@ export const useWordStore = defineStore('words', () => {
 
     const addWord = async (original: string, translation: string, article: string) => {
         const now = Date.now();
-        const newWord: Omit<Word, 'id' | 'updatedAt' | 'deletedAt'> = {
+        const newWord: Omit<Word, 'id' | 'updatedAt' | 'contentUpdatedAt' | 'deletedAt'> = {
             original: (original || '').trim(),
             translation: (translation || '').trim(),
             article: (article || '').trim(),
@@ -183,19 +281,19 @@ export const useWordStore = defineStore('words', () => {
 
         await dbAddWord(newWord);
         await loadWords();
-        if (isLoggedIn.value) sync();
+        requestSync();
     };
 
     const deleteWord = async (id: string) => {
         await dbDeleteWord(id);
         await loadWords();
-        if (isLoggedIn.value) sync();
+        requestSync();
     };
 
     const updateWordDetails = async (id: string, original: string, translation: string, article: string) => {
         await dbUpdateWordDetails(id, original, translation, article);
         await loadWords();
-        if (isLoggedIn.value) sync();
+        requestSync();
     };
 
     const updateReview = async (id: string, scoreChange: number) => {
@@ -235,7 +333,7 @@ export const useWordStore = defineStore('words', () => {
         await updateWordReview(id, scoreChange);
         // The component should call loadWords after animation
         // We can trigger sync in background
-        if (isLoggedIn.value) sync();
+        requestSync();
     };
 
     const updateReviewLater = async (id: string) => {
@@ -268,10 +366,11 @@ export const useWordStore = defineStore('words', () => {
                 'UPDATE words SET nextReviewAt = ?, updatedAt = ? WHERE id = ?',
                 [oneMinuteFromNow, Date.now(), id]
             );
+            await enqueueWordChanges([id]);
         }
 
         await loadWords();
-        if (isLoggedIn.value) sync();
+        requestSync();
     };
 
     const startKeepGoingMode = async () => {
@@ -321,10 +420,50 @@ export const useWordStore = defineStore('words', () => {
     const resetWords = async () => {
         await resetAllWords();
         await loadWords();
-        if (isLoggedIn.value) sync();
+        requestSync();
+    };
+
+    const languageStatus = ref<Record<string, {
+        exists: boolean,
+        downloading: boolean,
+        updateAvailable?: string | null, // Newer version on the server
+        error?: string | null, // Last failed download, the installed dictionary is kept
+        paused?: boolean, // A partial download is waiting to be resumed
+        received?: number, // Bytes of the current or paused download
+        total?: number | null
+    }>>({});
+
+    // Version and checksum of each dictionary as downloaded. Dictionaries installed before
+    // manifests existed have no entry and count as the version ensure_dictionary_db reports.
+    const installedDictionaries = useStorage<Record<string, { version: string; sha256: string }>>('installedDictionaries', {});
+
+    const installedDictionaryVersion = (lang: string) =>
+        installedDictionaries.value[lang]?.version || dictionaryInfo.value?.version || '';
+
+    // Null when the server has no manifest for the language (or predates manifests)
+    const fetchDictionaryManifest = async (lang: string): Promise<DictionaryManifest | null> => {
+        const res = await fetch(`${apiUrl.value}/dictionaries/${lang}/manifest`);
+        if (res.status === 404) return null;
+        if (!res.ok) throw new Error(`Failed to fetch dictionary manifest: ${res.statusText}`);
+        return res.json();
     };
 
-    const languageStatus = ref<Record<string, { exists: boolean, downloading: boolean }>>({});
+    // Offers the server's dictionary only when it is newer than the installed one
+    const checkDictionaryUpdate = async (lang: string) => {
+        if (!languageStatus.value[lang]?.exists) return;
+        try {
+            const manifest = await fetchDictionaryManifest(lang);
+            const installed = installedDictionaryVersion(lang);
+            const newer = !!manifest && (!installed || isNewerDictionaryVersion(manifest.version, installed))
+                && manifest.sha256 !== installedDictionaries.value[lang]?.sha256;
+
+            languageStatus.value[lang] = { ...languageStatus.value[lang], updateAvailable: newer ? manifest!.version : null };
+            if (newer) console.debug(`[Store] Dictionary update for ${lang}: ${installed || 'unknown'} -> ${manifest!.version}`);
+        } catch (e) {
+            // Offline or server unreachable, check again next start
+            console.debug(`[Store] Dictionary update check failed for ${lang}`, e);
+        }
+    };
 
     const checkAllDictionaries = async () => {
         const langs = ['de', 'es', 'fr', 'it'];
@@ -338,13 +477,23 @@ export const useWordStore = defineStore('words', () => {
                 // Actually, initializeDictionary sets the global db instance. We shouldn't call it for all.
                 // We need a new function in dictionary.ts or just invoke the command directly here?
                 // Let's invoke the command directly to avoid side effects on the active DB.
-                const { invoke } = await import('@tauri-apps/api/core');
-                const info = await invoke<DictionaryInfo>('ensure_dictionary_db', { lang });
+                // The browser build keeps its dictionaries in browser storage instead.
+                let exists: boolean;
+                if (isTauri()) {
+                    const { invoke } = await import('@tauri-apps/api/core');
+                    exists = (await invoke<DictionaryInfo>('ensure_dictionary_db', { lang })).exists;
+                } else {
+                    const { hasBrowserDictionary } = await import('@/lib/browserDictionary');
+                    exists = await hasBrowserDictionary(lang);
+                }
 
                 languageStatus.value[lang] = {
-                    exists: info.exists,
+                    ...languageStatus.value[lang],
+                    exists,
                     downloading: languageStatus.value[lang]?.downloading || false
                 };
+                checkDictionaryUpdate(lang);
+                await restorePartialDownload(lang);
             } catch (e) {
                 console.error(`Failed to check dictionary for ${lang}:`, e);
             }
@@ -359,11 +508,12 @@ export const useWordStore = defineStore('words', () => {
             if (info) {
                 dictionaryInfo.value = info;
                 debugInfo.value.dictionaryLoaded = info.exists;
-                debugInfo.value.dictionaryVersion = info.version;
+                debugInfo.value.dictionaryVersion = installedDictionaries.value[currentLanguage.value]?.version || info.version;
                 debugInfo.value.dictionaryLogs = info.logs;
 
                 // Update status for current language
                 languageStatus.value[currentLanguage.value] = {
+                    ...languageStatus.value[currentLanguage.value],
                     exists: info.exists,
                     downloading: languageStatus.value[currentLanguage.value]?.downloading || false
                 };
@@ -372,6 +522,9 @@ export const useWordStore = defineStore('words', () => {
                     // Dictionary missing, trigger download
                     console.log('[Store] Dictionary missing, triggering download...');
                     downloadDictionary(currentLanguage.value);
+                } else {
+                    checkDictionaryUpdate(currentLanguage.value);
+                    restorePartialDownload(currentLanguage.value);
                 }
             } else {
                 debugInfo.value.dictionaryLogs = ['[App] Browser mode - dictionary not available'];
@@ -386,63 +539,91 @@ export const useWordStore = defineStore('words', () => {
     const downloadProgress = ref<number | null>(null);
     const downloadStatus = ref<string>('');
 
-    const downloadDictionary = async (lang: string) => {
-        if (languageStatus.value[lang]?.downloading) return; // Already downloading
-
-        try {
-            // Set downloading state
-            languageStatus.value[lang] = { ...languageStatus.value[lang], downloading: true };
+    // Running dictionary downloads, aborted to pause or cancel them. A stopped download still
+    // writes what it received, so the next attempt (or a cancel) waits for it to settle.
+    const downloadControllers = new Map<string, AbortController>();
+    const downloadTasks = new Map<string, Promise<void>>();
 
-            downloadStatus.value = 'Downloading dictionary...';
-            downloadProgress.value = 0;
+    const dictionaryArchive = (lang: string) => `dictionary_${lang}.db.gz`;
 
-            const response = await fetch(`${apiUrl.value}/dictionaries/${lang}.db.gz`);
-            if (!response.ok) throw new Error(`Failed to download dictionary: ${response.statusText}`);
+    const showDownloadProgress = (lang: string, received: number, total: number | null) => {
+        languageStatus.value[lang] = { ...languageStatus.value[lang], received, total };
+        // Indeterminate progress without a known size
+        downloadProgress.value = total ? Math.round((received / total) * 100) : -1;
+    };
 
-            const reader = response.body?.getReader();
-            const contentLengthHeader = response.headers.get('Content-Length');
-            const contentLength = contentLengthHeader ? parseInt(contentLengthHeader, 10) : 0;
-            let receivedLength = 0;
-            const chunks = [];
+    // Shows a download interrupted in an earlier run as paused, it resumes on the next download
+    const restorePartialDownload = async (lang: string) => {
+        // Browser downloads are not kept when interrupted
+        if (languageStatus.value[lang]?.downloading || !isTauri()) return;
+        try {
+            const { readPartialDownload } = await import('@/lib/download');
+            const partial = await readPartialDownload(dictionaryArchive(lang));
+            if (partial) {
+                languageStatus.value[lang] = { ...languageStatus.value[lang], paused: true, received: partial.received, total: partial.total };
+            }
+        } catch (e) {
+            console.debug(`[Store] Failed to check partial download for ${lang}`, e);
+        }
+    };
 
-            if (!reader) throw new Error('Failed to get reader');
+    // Downloads (or resumes) the dictionary archive. The installed dictionary is only replaced
+    // once the download matches the manifest.
+    const downloadDictionary = async (lang: string) => {
+        if (languageStatus.value[lang]?.downloading) return; // Already downloading
 
-            while (true) {
-                const { done, value } = await reader.read();
-                if (done) break;
+        // Set downloading state
+        languageStatus.value[lang] = { ...languageStatus.value[lang], downloading: true, paused: false, error: null };
 
-                chunks.push(value);
-                receivedLength += value.length;
+        const controller = new AbortController();
+        downloadControllers.set(lang, controller);
+        const previous = downloadTasks.get(lang);
+        let settle!: () => void;
+        const task = new Promise<void>(resolve => settle = resolve);
+        downloadTasks.set(lang, task);
 
-                if (contentLength > 0) {
-                    downloadProgress.value = Math.round((receivedLength / contentLength) * 100);
-                } else {
-                    // Indeterminate progress
-                    downloadProgress.value = -1;
-                }
-            }
-
-            const blob = new Blob(chunks);
-            const arrayBuffer = await blob.arrayBuffer();
-            const uint8Array = new Uint8Array(arrayBuffer);
-
-            downloadStatus.value = 'Saving dictionary...';
+        try {
+            await previous;
 
-            // Save to app data dir using tauri-plugin-fs
-            const { BaseDirectory, writeFile, remove, exists } = await import('@tauri-apps/plugin-fs');
-            await writeFile(`dictionary_${lang}.db.gz`, uint8Array, { baseDir: BaseDirectory.AppData });
+            downloadStatus.value = 'Downloading dictionary...';
+            downloadProgress.value = 0;
 
-            // Remove existing .db file to force re-extraction
-            const dbFile = `dictionary_${lang}.db`;
-            if (await exists(dbFile, { baseDir: BaseDirectory.AppData })) {
-                await remove(dbFile, { baseDir: BaseDirectory.AppData });
+            const manifest = await fetchDictionaryManifest(lang);
+            if (!manifest) console.warn(`[Store] No manifest for dictionary ${lang}, download cannot be verified`);
+
+            const url = `${apiUrl.value}${manifest?.url || `/dictionaries/${lang}.db.gz`}`;
+            const options = {
+                expected: manifest && { size: manifest.size, sha256: manifest.sha256, version: manifest.version },
+                signal: controller.signal,
+                onProgress: (received: number, total: number | null) => showDownloadProgress(lang, received, total)
+            };
+
+            if (isTauri()) {
+                const { downloadResumable } = await import('@/lib/download');
+                await downloadResumable(url, dictionaryArchive(lang), options);
+
+                // Remove existing .db file to force re-extraction
+                const { BaseDirectory, remove, exists } = await import('@tauri-apps/plugin-fs');
+                const dbFile = `dictionary_${lang}.db`;
+                if (await exists(dbFile, { baseDir: BaseDirectory.AppData })) {
+                    await remove(dbFile, { baseDir: BaseDirectory.AppData });
+                }
+            } else {
+                const { downloadBrowserDictionary } = await import('@/lib/browserDictionary');
+                await downloadBrowserDictionary(url, lang, options);
             }
 
             downloadStatus.value = 'Dictionary downloaded. Initializing...';
             downloadProgress.value = null;
 
+            if (manifest) {
+                installedDictionaries.value[lang] = { version: manifest.version, sha256: manifest.sha256 };
+            } else {
+                delete installedDictionaries.value[lang];
+            }
+
             // Update status
-            languageStatus.value[lang] = { exists: true, downloading: false };
+            languageStatus.value[lang] = { exists: true, downloading: false, updateAvailable: null, error: null };
 
             // Re-initialize dictionary if it's the current one
             if (lang === currentLanguage.value) {
@@ -450,12 +631,45 @@ export const useWordStore = defineStore('words', () => {
             }
 
         } catch (e) {
+            downloadProgress.value = null;
+
+            if (controller.signal.aborted) {
+                // Paused or cancelled, the action has set the status
+                downloadStatus.value = '';
+                return;
+            }
+
             console.error('Download failed:', e);
             downloadStatus.value = `Download failed: ${e instanceof Error ? e.message : String(e)}`;
-            downloadProgress.value = null;
 
-            // Reset downloading state
-            languageStatus.value[lang] = { ...languageStatus.value[lang], downloading: false };
+            // Reset downloading state. Whatever arrived is kept and resumed by the next attempt.
+            languageStatus.value[lang] = { ...languageStatus.value[lang], downloading: false, error: e instanceof Error ? e.message : String(e) };
+            await restorePartialDownload(lang);
+        } finally {
+            if (downloadControllers.get(lang) === controller) downloadControllers.delete(lang);
+            if (downloadTasks.get(lang) === task) downloadTasks.delete(lang);
+            settle();
+        }
+    };
+
+    const pauseDictionaryDownload = (lang: string) => {
+        const controller = downloadControllers.get(lang);
+        if (!controller) return;
+        languageStatus.value[lang] = { ...languageStatus.value[lang], downloading: false, paused: true };
+        controller.abort();
+    };
+
+    // Stops the download and deletes what has arrived so far
+    const cancelDictionaryDownload = async (lang: string) => {
+        downloadControllers.get(lang)?.abort();
+        languageStatus.value[lang] = { ...languageStatus.value[lang], downloading: false, paused: false, received: 0, total: null, error: null };
+        try {
+            await downloadTasks.get(lang);
+            if (!isTauri()) return;
+            const { discardPartialDownload } = await import('@/lib/download');
+            await discardPartialDownload(dictionaryArchive(lang));
+        } catch (e) {
+            console.error(`[Store] Failed to remove partial download for ${lang}`, e);
         }
     };
 
@@ -467,19 +681,64 @@ export const useWordStore = defineStore('words', () => {
     };
 
     // Auth Actions
-    const login = async (username: string, password: string) => {
+    const startSession = async (
+        data: { user: { id: string; username: string }; token: string; refreshToken: string },
+        confirmMergeWords: ConfirmMergeWords
+    ) => {
+        if (!localAccountId.value || localAccountId.value === data.user.id || await confirmMergeWords()) {
+            // Upload words created while logged out to the account
+            await enqueueAllWords();
+        } else {
+            await clearLocalWords();
+            await loadWords();
+        }
+        localAccountId.value = data.user.id;
+        token.value = data.token;
+        refreshToken.value = data.refreshToken;
+        user.value = data.user;
+    };
+
+    // Request to the sync server with the protocol version header. Throws ProtocolError
+    // (and remembers it for the UI) when the server cannot serve this app version.
+    const apiFetch = async (path: string, init: RequestInit & { headers?: Record<string, string> } = {}) => {
+        try {
+            const res = await checkProtocol(await fetch(`${apiUrl.value}${path}`, { ...init, headers: withProtocolHeader(init.headers) }));
+            protocolError.value = null;
+            return res;
+        } catch (e) {
+            if (e instanceof ProtocolError) protocolError.value = e.message;
+            throw e;
+        }
+    };
+
+    // Error for an unexpected response. The request ID lets the server logs for it be found.
+    const requestError = (label: string, res: Response) => {
+        const requestId = res.headers.get(REQUEST_ID_HEADER);
+        return new Error(`${label} (${res.status}${requestId ? `, request ${requestId}` : ''})`);
+    };
+
+    // Failed auth response as a result object. `code` is set for errors the UI can explain,
+    // `retryAfter` (seconds) when the server rate limited the attempt.
+    const authError = async (res: Response, fallback: string): Promise<AuthResult> => {
         try {
-            const res = await fetch(`${apiUrl.value}/auth/login`, {
+            const data = await res.json();
+            return { success: false, error: data.error || fallback, code: data.code, retryAfter: data.retryAfter };
+        } catch {
+            return { success: false, error: `${fallback} (${res.status})` };
+        }
+    };
+
+    const login = async (username: string, password: string, confirmMergeWords: ConfirmMergeWords): Promise<AuthResult> => {
+        try {
+            const res = await apiFetch('/auth/login', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ username, password })
+                body: JSON.stringify({ username, password, deviceName: getDeviceName() })
             });
 
-            if (!res.ok) throw new Error('Login failed');
+            if (!res.ok) return await authError(res, 'Login failed');
 
-            const data = await res.json();
-            token.value = data.token;
-            user.value = data.user;
+            await startSession(await res.json(), confirmMergeWords);
 
             await sync();
             return { success: true };
@@ -489,84 +748,626 @@ export const useWordStore = defineStore('words', () => {
         }
     };
 
-    const register = async (username: string, password: string) => {
+    const register = async (username: string, password: string, confirmMergeWords: ConfirmMergeWords): Promise<AuthResult> => {
         try {
-            const res = await fetch(`${apiUrl.value}/auth/register`, {
+            const res = await apiFetch('/auth/register', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ username, password })
+                body: JSON.stringify({ username, password, deviceName: getDeviceName() })
             });
 
-            if (!res.ok) throw new Error('Registration failed');
+            if (!res.ok) return await authError(res, 'Registration failed');
 
             const data = await res.json();
-            token.value = data.token;
-            user.value = data.user;
+            await startSession(data, confirmMergeWords);
 
             await sync();
-            return { success: true };
+            return { success: true, recoveryCodes: data.recoveryCodes };
         } catch (e) {
             console.error(e);
             return { success: false, error: e instanceof Error ? e.message : 'Registration failed' };
         }
     };
 
-    const logout = () => {
+    // Sets a new password with a one-time recovery code and logs in
+    const recoverAccount = async (username: string, code: string, newPassword: string, confirmMergeWords: ConfirmMergeWords): Promise<AuthResult> => {
+        try {
+            const res = await apiFetch('/auth/recover', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ username, code, newPassword, deviceName: getDeviceName() })
+            });
+
+            if (!res.ok) return await authError(res, 'Recovery failed');
+
+            const data = await res.json();
+            await startSession(data, confirmMergeWords);
+
+            await sync();
+            return { success: true, remainingRecoveryCodes: data.remainingRecoveryCodes };
+        } catch (e) {
+            console.error(e);
+            return { success: false, error: e instanceof Error ? e.message : 'Recovery failed' };
+        }
+    };
+
+    // Forgets the session locally. Used directly when the server already considers it invalid.
+    const clearSession = () => {
         token.value = null;
+        refreshToken.value = null;
         user.value = null;
         lastSyncTimestamp.value = 0;
+        pullCursor.value = null;
+        clearRetry();
+        retryAttempt = 0;
+        settingsSyncState.value = { version: 0, updatedAt: 0, dirty: false };
     };
 
-    const sync = async () => {
-        if (!token.value || isSyncing.value) return;
-        isSyncing.value = true;
+    const logout = () => {
+        // Revoke the session server-side so its refresh token stops working; best effort when offline
+        if (token.value) {
+            apiFetch('/auth/logout', {
+                method: 'POST',
+                headers: { 'Authorization': `Bearer ${token.value}` }
+            }).catch(e => console.debug('[Auth] Logout request failed:', e));
+        }
+        clearSession();
+    };
 
-        try {
-            // 1. Get local changes
-            const localChanges = await getWordsForSync(lastSyncTimestamp.value);
+    // Exchanges the refresh token for a new token pair. Concurrent callers share one request,
+    // because refresh tokens are single use. Returns false if the session has ended.
+    const refreshSession = (): Promise<boolean> => {
+        if (refreshInFlight) return refreshInFlight;
 
-            // 2. Send to server
-            const res = await fetch(`${apiUrl.value}/sync`, {
+        refreshInFlight = (async () => {
+            if (!refreshToken.value) return false;
+
+            const res = await apiFetch('/auth/refresh', {
                 method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token.value}`
-                },
-                body: JSON.stringify({
-                    lastSyncTimestamp: lastSyncTimestamp.value,
-                    changes: localChanges
-                })
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ refreshToken: refreshToken.value })
             });
 
-            if (!res.ok) {
-                if (res.status === 401 || res.status === 403) {
-                    logout();
-                    return;
-                }
-                throw new Error('Sync failed');
+            if (res.status === 401 || res.status === 400) return false;
+            if (!res.ok) throw requestError('Token refresh failed', res);
+
+            const data = await res.json();
+            token.value = data.token;
+            // Left out when a concurrent refresh (e.g. in another tab) rotated the token first
+            if (data.refreshToken) refreshToken.value = data.refreshToken;
+            return true;
+        })().finally(() => {
+            refreshInFlight = null;
+        });
+
+        return refreshInFlight;
+    };
+
+    // Authenticated JSON request. Refreshes an expired access token once and retries.
+    // Returns null when the session is no longer valid.
+    const authFetch = async (path: string, method: string, body?: unknown): Promise<Response | null> => {
+        const send = () => apiFetch(path, {
+            method,
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${token.value}`
+            },
+            body: body === undefined ? undefined : JSON.stringify(body)
+        });
+
+        let res = await send();
+
+        if (res.status === 401) {
+            if (!(await refreshSession())) {
+                clearSession();
+                return null;
+            }
+            res = await send();
+        }
+
+        if (res.status === 401 || res.status === 403) {
+            clearSession();
+            return null;
+        }
+        return res;
+    };
+
+    // Restores the profile after a reload; the token survives in storage but the user does not
+    const fetchCurrentUser = async () => {
+        if (!isLoggedIn.value) return;
+        try {
+            const res = await authFetch('/auth/me', 'GET');
+            if (!res) return;
+            if (res.status === 404) {
+                // Account was deleted on another device
+                clearSession();
+                return;
             }
+            if (!res.ok) throw requestError('Failed to load profile', res);
+            const data = await res.json();
+            user.value = data.user;
+            // Installs that logged in before the account was remembered
+            localAccountId.value ??= data.user.id;
+        } catch (e) {
+            // Offline; try again on the next startup
+            console.warn('[Auth] Failed to restore user:', e);
+        }
+    };
+
+    const changePassword = async (currentPassword: string, newPassword: string): Promise<AuthResult> => {
+        try {
+            const res = await authFetch('/auth/password', 'PUT', { currentPassword, newPassword });
+            if (!res) return { success: false, error: 'Session expired, please log in again' };
+            if (!res.ok) return await authError(res, 'Password change failed');
+            return { success: true };
+        } catch (e) {
+            console.error(e);
+            return { success: false, error: e instanceof Error ? e.message : 'Password change failed' };
+        }
+    };
 
+    const renameAccount = async (username: string): Promise<AuthResult> => {
+        try {
+            const res = await authFetch('/auth/account', 'PATCH', { username });
+            if (!res) return { success: false, error: 'Session expired, please log in again' };
+            if (!res.ok) return await authError(res, 'Rename failed');
             const data = await res.json();
+            user.value = data.user;
+            return { success: true };
+        } catch (e) {
+            console.error(e);
+            return { success: false, error: e instanceof Error ? e.message : 'Rename failed' };
+        }
+    };
+
+    const fetchRecoveryStatus = async (): Promise<RecoveryStatus | null> => {
+        const res = await authFetch('/auth/recovery-codes', 'GET');
+        if (!res) return null;
+        if (!res.ok) throw requestError('Failed to load recovery codes', res);
+        return res.json();
+    };
+
+    // Invalidates the old recovery codes; the new ones can only be shown this once
+    const regenerateRecoveryCodes = async (password: string): Promise<AuthResult> => {
+        try {
+            const res = await authFetch('/auth/recovery-codes', 'POST', { password });
+            if (!res) return { success: false, error: 'Session expired, please log in again' };
+            if (!res.ok) return await authError(res, 'Generating recovery codes failed');
+            const data = await res.json();
+            return { success: true, recoveryCodes: data.recoveryCodes };
+        } catch (e) {
+            console.error(e);
+            return { success: false, error: e instanceof Error ? e.message : 'Generating recovery codes failed' };
+        }
+    };
+
+    // Deletes the server account and everything synced to it. Local words are kept.
+    const deleteAccount = async (password: string): Promise<AuthResult> => {
+        try {
+            const res = await authFetch('/auth/account', 'DELETE', { password });
+            if (!res) return { success: false, error: 'Session expired, please log in again' };
+            if (!res.ok) return await authError(res, 'Account deletion failed');
+            clearSession();
+            return { success: true };
+        } catch (e) {
+            console.error(e);
+            return { success: false, error: e instanceof Error ? e.message : 'Account deletion failed' };
+        }
+    };
+
+    const fetchSessions = async (): Promise<DeviceSession[]> => {
+        const res = await authFetch('/auth/sessions', 'GET');
+        if (!res) return [];
+        if (!res.ok) throw requestError('Failed to load sessions', res);
+        const data = await res.json();
+        return data.sessions;
+    };
+
+    const revokeSession = async (id: string) => {
+        const res = await authFetch(`/auth/sessions/${id}`, 'DELETE');
+        if (res && !res.ok) throw requestError('Failed to revoke session', res);
+    };
+
+    // POSTs one sync page. Returns null when the session is no longer valid.
+    const postSync = async <T>(path: 'push' | 'pull', body: unknown): Promise<T | null> => {
+        const res = await authFetch(`/sync/${path}`, 'POST', body);
+        if (!res) return null;
+        if (!res.ok) throw requestError(`Sync ${path} failed`, res);
+        return await res.json();
+    };
+
+    const collectSettings = async (): Promise<SyncedSettings> => ({
+        algorithm: await getAlgorithmSettings(),
+        learningLimit: learningLimit.value,
+        autoPlayAudio: autoPlayAudio.value,
+        doubleBackspaceInterval: doubleBackspaceInterval.value,
+        sortStrategy: sortStrategy.value,
+        currentLanguage: currentLanguage.value
+    });
+
+    const applyRemoteSettings = async (remote: Partial<SyncedSettings>) => {
+        if (remote.algorithm) {
+            await dbSaveAlgorithmSettings(remote.algorithm);
+            algorithmSettings.value = await getAlgorithmSettings();
+        }
+
+        const languageChanged = !!remote.currentLanguage && remote.currentLanguage !== currentLanguage.value;
+
+        applyingRemoteSettings = true;
+        try {
+            if (typeof remote.learningLimit === 'number') learningLimit.value = remote.learningLimit;
+            if (typeof remote.autoPlayAudio === 'boolean') autoPlayAudio.value = remote.autoPlayAudio;
+            if (typeof remote.doubleBackspaceInterval === 'number') doubleBackspaceInterval.value = remote.doubleBackspaceInterval;
+            if (remote.sortStrategy) sortStrategy.value = remote.sortStrategy;
+            if (remote.currentLanguage) currentLanguage.value = remote.currentLanguage;
+        } finally {
+            applyingRemoteSettings = false;
+        }
+
+        if (languageChanged) {
+            await loadWords();
+            await initDictionary();
+        }
+    };
+
+    const putSettings = async (baseVersion: number) => {
+        const sentAt = settingsSyncState.value.updatedAt;
+        const res = await authFetch('/settings', 'PUT', {
+            settings: await collectSettings(),
+            baseVersion,
+            updatedAt: sentAt,
+            deviceId: getDeviceId()
+        });
+        if (!res) return null;
+        if (!res.ok && res.status !== 409) throw requestError('Settings sync failed', res);
+        return { status: res.status, sentAt, data: await res.json() as RemoteSettings };
+    };
+
+    // Settings are one versioned document per user. Local edits are uploaded against the last
+    // version we saw; if another device saved in between, the most recent edit wins.
+    const syncSettings = async (): Promise<boolean> => {
+        const state = settingsSyncState.value;
+
+        if (!state.dirty) {
+            const res = await authFetch('/settings', 'GET');
+            if (!res) return false;
+            if (!res.ok) throw requestError('Settings sync failed', res);
+            const data = await res.json() as RemoteSettings;
+
+            if (data.version === 0) {
+                // Nothing stored yet: this device provides the initial settings
+                settingsSyncState.value = { ...state, updatedAt: Date.now(), dirty: true };
+            } else {
+                if (data.version > state.version && data.settings) {
+                    await applyRemoteSettings(data.settings);
+                }
+                settingsSyncState.value = { version: data.version, updatedAt: data.updatedAt, dirty: false };
+                return true;
+            }
+        }
+
+        let result = await putSettings(settingsSyncState.value.version);
+        if (!result) return false;
+
+        if (result.status === 409) {
+            if (result.sentAt > result.data.updatedAt) {
+                // Our edit is newer, overwrite the other device's version
+                result = await putSettings(result.data.version);
+                if (!result) return false;
+                if (result.status === 409) return true; // Lost another race, resolve on the next sync
+            } else {
+                if (result.data.settings) {
+                    await applyRemoteSettings(result.data.settings);
+                }
+            }
+        }
+
+        // Edits made while the request was in flight stay dirty
+        const stillDirty = settingsSyncState.value.updatedAt !== result.sentAt && settingsSyncState.value.dirty;
+        settingsSyncState.value = {
+            version: result.data.version,
+            updatedAt: stillDirty ? settingsSyncState.value.updatedAt : result.data.updatedAt,
+            dirty: stillDirty
+        };
+        return true;
+    };
+
+    const markSettingsChanged = () => {
+        if (applyingRemoteSettings) return;
+        settingsSyncState.value = { ...settingsSyncState.value, updatedAt: Date.now(), dirty: true };
+        requestSync();
+    };
 
-            // 3. Apply server changes
-            if (data.changes && data.changes.length > 0) {
-                await upsertWords(data.changes);
+    watch([learningLimit, autoPlayAudio, doubleBackspaceInterval, sortStrategy, currentLanguage], markSettingsChanged, { flush: 'sync' });
+
+    const refreshPendingChanges = async () => {
+        pendingChanges.value = (await countOutbox()) + (await countUnsyncedReviews()) + (settingsSyncState.value.dirty ? 1 : 0);
+    };
+
+    // Uploads the outbox page by page. Entries are only removed once the server committed
+    // their page, so an interrupted sync resumes with whatever is still queued.
+    const pushChanges = async (): Promise<boolean> => {
+        const total = (await countOutbox()) + (await countUnsyncedReviews());
+        let done = 0;
+        syncProgress.value = { phase: 'push', done, total };
+
+        while (true) {
+            const { entries, words: changes } = await getOutboxPage(SYNC_PAGE_SIZE);
+            const reviews = await getUnsyncedReviews(SYNC_PAGE_SIZE - entries.length);
+            if (entries.length === 0 && reviews.length === 0) return true;
+
+            const data = await postSync<{ conflicts?: Array<{ word: Word }>; rejected?: string[] }>('push', {
+                deviceId: getDeviceId(),
+                changes,
+                reviews
+            });
+            if (!data) return false;
+
+            // Our own changes the server merged with or rejected in favour of newer edits
+            const conflictWords = (data.conflicts || []).map(c => c.word);
+            if (conflictWords.length > 0) {
+                console.debug(`[Sync] Server resolved ${conflictWords.length} conflicting change(s)`);
+                await reconcileWords(conflictWords);
+            }
+
+            // IDs another account already uses. The words move to new IDs and go out with the
+            // next page; the server did not store their reviews either.
+            const rejected = new Set(data.rejected || []);
+            if (rejected.size > 0) {
+                await rekeyWords([...rejected]);
                 await loadWords();
             }
 
-            // 4. Update timestamp
-            lastSyncTimestamp.value = data.timestamp;
+            await acknowledgeOutbox(entries);
+            await markReviewsSynced(reviews.filter(r => !rejected.has(r.wordId)).map(r => r.id));
+
+            done += entries.length + reviews.length;
+            syncProgress.value = { phase: 'push', done, total: Math.max(total, done) };
+            await refreshPendingChanges();
+        }
+    };
+
+    // Downloads server changes page by page. The cursor is only stored once a page has been applied locally.
+    const pullChanges = async (): Promise<boolean> => {
+        let done = 0;
+        let hasChanges = false;
+        syncProgress.value = { phase: 'pull', done, total: null };
+
+        while (true) {
+            const data = await postSync<{
+                changes: Word[];
+                reviews: ReviewEvent[];
+                cursor: SyncCursor;
+                hasMore: boolean;
+            }>('pull', {
+                deviceId: getDeviceId(),
+                cursor: pullCursor.value,
+                limit: SYNC_PAGE_SIZE
+            });
+            if (!data) return false;
+
+            if (data.changes.length > 0) {
+                await reconcileWords(data.changes);
+                hasChanges = true;
+            }
+            if (data.reviews.length > 0) {
+                await saveRemoteReviews(data.reviews);
+            }
+
+            pullCursor.value = data.cursor;
+            done += data.changes.length + data.reviews.length;
+            // The server only says whether more follows, so the total is known once the last page arrived
+            syncProgress.value = { phase: 'pull', done, total: data.hasMore ? null : done };
+
+            if (!data.hasMore) break;
+        }
+
+        if (hasChanges) {
+            await loadWords();
+        }
+        return true;
+    };
+
+    const clearRetry = () => {
+        if (retryTimer) {
+            clearTimeout(retryTimer);
+            retryTimer = null;
+        }
+        nextRetryAt.value = null;
+    };
+
+    // Exponential backoff with jitter so devices that went offline together don't retry in lockstep
+    const scheduleRetry = () => {
+        clearRetry();
+        const delay = Math.min(SYNC_MIN_RETRY * 2 ** retryAttempt, SYNC_MAX_RETRY) * (0.75 + Math.random() * 0.5);
+        retryAttempt++;
+        nextRetryAt.value = Date.now() + delay;
+        retryTimer = setTimeout(() => {
+            retryTimer = null;
+            nextRetryAt.value = null;
+            sync();
+        }, delay);
+    };
+
+    const sync = async () => {
+        if (!token.value) return;
+        if (isSyncing.value) {
+            // Run again afterwards so changes made or announced mid-sync are not missed
+            syncQueued = true;
+            return;
+        }
+
+        if (typeof navigator !== 'undefined' && !navigator.onLine) {
+            // The 'online' listener picks this up again
+            syncStatus.value = { ...syncStatus.value, lastError: 'Offline', lastErrorAt: Date.now() };
+            return;
+        }
 
+        isSyncing.value = true;
+        clearRetry();
+        let failed = false;
+
+        try {
+            // Installs that synced with the single-request protocol continue from their last timestamp
+            if (!pullCursor.value && lastSyncTimestamp.value > 0) {
+                const position = { syncedAt: lastSyncTimestamp.value, id: null };
+                pullCursor.value = { words: position, reviews: position };
+                await enqueueWordsChangedSince(lastSyncTimestamp.value);
+                lastSyncTimestamp.value = 0;
+            }
+
+            // 1. Send local changes first so the server can resolve conflicts against them
+            if (!(await pushChanges())) return;
+
+            // 2. Fetch everything that changed on the server since the last acknowledged page
+            if (!(await pullChanges())) return;
+
+            // 3. Exchange algorithm settings and preferences
+            if (!(await syncSettings())) return;
+
+            retryAttempt = 0;
+            syncStatus.value = { ...syncStatus.value, lastSuccessAt: Date.now(), lastError: '' };
         } catch (e) {
             console.error('Sync error:', e);
+            // Retrying cannot fix a protocol mismatch; the next sync starts after an update or URL change
+            failed = !(e instanceof ProtocolError);
+            syncStatus.value = {
+                ...syncStatus.value,
+                lastError: e instanceof Error ? e.message : String(e),
+                lastErrorAt: Date.now()
+            };
         } finally {
             isSyncing.value = false;
+            syncProgress.value = null;
+            await refreshPendingChanges();
+
+            if (syncQueued) {
+                syncQueued = false;
+                sync();
+            } else if (failed && token.value) {
+                scheduleRetry();
+            }
+        }
+    };
+
+    // Called after every local change: counts it as pending and pushes it when logged in
+    const requestSync = () => {
+        refreshPendingChanges();
+        if (isLoggedIn.value) sync();
+    };
+
+    // Live sync: the server announces changes committed by the user's other devices
+    const startLiveSync = () => {
+        stopLiveSync();
+        const controller = new AbortController();
+        liveSyncController = controller;
+
+        (async () => {
+            let retryDelay = LIVE_SYNC_MIN_RETRY;
+
+            while (!controller.signal.aborted && token.value) {
+                try {
+                    await listenForChanges(
+                        `${apiUrl.value}/sync/events?deviceId=${encodeURIComponent(getDeviceId())}`,
+                        token.value,
+                        controller.signal,
+                        {
+                            onOpen: () => {
+                                liveSyncConnected.value = true;
+                                retryDelay = LIVE_SYNC_MIN_RETRY;
+                                // Catch up on anything missed while disconnected
+                                sync();
+                            },
+                            onEvent: (event) => {
+                                if (event === 'changes') sync();
+                            }
+                        }
+                    );
+                } catch (e) {
+                    if (controller.signal.aborted) break;
+                    console.debug('[LiveSync] Connection lost:', e);
+
+                    const status = (e as { status?: number }).status;
+                    if (status === 426) {
+                        // sync() reports the mismatch; reconnecting cannot succeed
+                        sync();
+                        break;
+                    }
+                    if (status === 403) {
+                        // Session was revoked from another device
+                        clearSession();
+                        break;
+                    }
+                    if (status === 401) {
+                        try {
+                            if (await refreshSession()) continue;
+                            clearSession();
+                            break;
+                        } catch (refreshError) {
+                            console.debug('[LiveSync] Token refresh failed:', refreshError);
+                        }
+                    }
+                }
+
+                liveSyncConnected.value = false;
+                if (controller.signal.aborted) break;
+
+                await new Promise(resolve => setTimeout(resolve, retryDelay));
+                retryDelay = Math.min(retryDelay * 2, LIVE_SYNC_MAX_RETRY);
+            }
+        })();
+
+        // Fallback while the channel is down
+        fallbackSyncTimer = setInterval(() => {
+            if (!liveSyncConnected.value) sync();
+        }, FALLBACK_SYNC_INTERVAL);
+    };
+
+    const stopLiveSync = () => {
+        liveSyncController?.abort();
+        liveSyncController = null;
+        liveSyncConnected.value = false;
+        if (fallbackSyncTimer) {
+            clearInterval(fallbackSyncTimer);
+            fallbackSyncTimer = null;
         }
     };
 
+    refreshPendingChanges();
+    fetchCurrentUser();
+
+    // Follows the login state rather than the token, which changes on every refresh
+    watch(isLoggedIn, (value) => {
+        if (value) startLiveSync();
+        else stopLiveSync();
+    }, { immediate: true });
+
+    watch(apiUrl, () => {
+        protocolError.value = null;
+        if (token.value) startLiveSync();
+    });
+
+    if (typeof window !== 'undefined') {
+        // Flush the outbox as soon as the network is back instead of waiting for the backoff
+        window.addEventListener('online', () => {
+            retryAttempt = 0;
+            if (isLoggedIn.value) sync();
+        });
+
+        // Mobile OSes silently drop the stream while the app is in the background,
+        // so always catch up when the app comes back to the foreground
+        window.addEventListener('focus', () => {
+            if (isLoggedIn.value) sync();
+        });
+        document.addEventListener('visibilitychange', () => {
+            if (document.visibilityState === 'visible' && isLoggedIn.value) sync();
+        });
+    }
+
     const saveSettings = async (settings: AlgorithmSettings) => {
         await dbSaveAlgorithmSettings(settings);
         algorithmSettings.value = settings;
+        markSettingsChanged();
     };
 
     const loadSettings = async () => {
@@ -584,6 +1385,10 @@ export const useWordStore = defineStore('words', () => {
             clearTimeout(timeoutId);
 
             if (res.ok) {
+                const health = await res.json().catch(() => ({}));
+                if (health.status === 'degraded') {
+                    return { success: true, message: 'Connected to server (text-to-speech unavailable)' };
+                }
                 return { success: true, message: 'Connected to server' };
             } else {
                 return { success: false, message: `Server returned ${res.status}` };
@@ -656,6 +1461,12 @@ export const useWordStore = defineStore('words', () => {
         user,
         isLoggedIn,
         isSyncing,
+        syncProgress,
+        syncStatus,
+        pendingChanges,
+        nextRetryAt,
+        liveSyncConnected,
+        protocolError,
         apiUrl,
         loadWords,
         addWord,
@@ -669,6 +1480,14 @@ export const useWordStore = defineStore('words', () => {
         login,
         register,
         logout,
+        fetchSessions,
+        revokeSession,
+        changePassword,
+        renameAccount,
+        deleteAccount,
+        recoverAccount,
+        fetchRecoveryStatus,
+        regenerateRecoveryCodes,
         sync,
         setApiUrl,
         saveSettings,
@@ -687,8 +1506,11 @@ export const useWordStore = defineStore('words', () => {
         downloadStatus,
         setLanguage,
         downloadDictionary,
+        pauseDictionaryDownload,
+        cancelDictionaryDownload,
         languageStatus,
         checkAllDictionaries,
+        checkDictionaryUpdate,
         serverUrl: apiUrl, // Expose apiUrl as serverUrl for compatibility
         autoPlayAudio,
         setAutoPlayAudio,